@@ -0,0 +1,27 @@
+export class AbortedError extends Error {
+  constructor() {
+    super("The optimization was aborted");
+    this.name = "AbortedError";
+  }
+}
+
+// Wraps an objective so that no new evaluations are issued once the signal
+// has been aborted. Evaluations that fail after the signal was aborted (e.g.
+// because the objective itself listens to the signal) are reported as aborted
+// as well, so callers only have to handle a single error type.
+export const abortable = <T, R>(
+  f: (v: T, signal?: AbortSignal) => R | Promise<R>,
+  signal?: AbortSignal,
+) => {
+  if (!signal) return async (v: T) => f(v);
+
+  return async (v: T) => {
+    if (signal.aborted) throw new AbortedError();
+    try {
+      return await f(v, signal);
+    } catch (e) {
+      if (signal.aborted) throw new AbortedError();
+      throw e;
+    }
+  };
+};
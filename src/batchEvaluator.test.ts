@@ -0,0 +1,92 @@
+import { batchEvaluator } from "./batchEvaluator";
+import { minimizeCMAES } from "./minimizeCMAES";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("batchEvaluator", () => {
+  test("limits the number of concurrent evaluations", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const evaluateAll = batchEvaluator(
+      async (x: number) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await tick();
+        running--;
+        return 2 * x;
+      },
+      true,
+      undefined,
+      3,
+    );
+    expect(await evaluateAll([1, 2, 3, 4, 5, 6, 7])).toEqual([
+      2, 4, 6, 8, 10, 12, 14,
+    ]);
+    expect(maxRunning).toBe(3);
+  });
+
+  test("starts no evaluations once one failed", async () => {
+    let rejected = false;
+    let callsAfterRejection = 0;
+    const evaluateAll = batchEvaluator(
+      async (x: number) => {
+        if (rejected) callsAfterRejection++;
+        await tick();
+        if (x === 2) {
+          rejected = true;
+          throw new Error("failed");
+        }
+        return x;
+      },
+      true,
+      undefined,
+      2,
+    );
+    await expect(evaluateAll([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])).rejects.toThrow(
+      "failed",
+    );
+    await tick();
+    await tick();
+    expect(callsAfterRejection).toBe(0);
+  });
+
+  test("starts no evaluations once aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const evaluateAll = batchEvaluator(
+      async (x: number) => {
+        if (++calls === 2) controller.abort();
+        await tick();
+        return x;
+      },
+      true,
+      controller.signal,
+      2,
+    );
+    await evaluateAll([1, 2, 3, 4, 5, 6]);
+    expect(calls).toBe(2);
+  });
+
+  test("stops the evaluations of an optimizer whose objective failed", async () => {
+    let calls = 0;
+    let callsAfterRejection = 0;
+    let rejected = false;
+    await expect(
+      minimizeCMAES(
+        async (x) => {
+          if (rejected) callsAfterRejection++;
+          await tick();
+          if (++calls === 2) {
+            rejected = true;
+            throw new Error("failed");
+          }
+          return x[0] ** 2 + x[1] ** 2;
+        },
+        [1, 1],
+        { concurrency: 2, populationSize: 20 },
+      ),
+    ).rejects.toThrow("failed");
+    await tick();
+    await tick();
+    expect(callsAfterRejection).toBe(0);
+  });
+});
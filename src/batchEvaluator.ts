@@ -0,0 +1,75 @@
+import { abortable } from "./abortable";
+
+export type BatchObjective<T> = (
+  xs: T[],
+  signal?: AbortSignal,
+) => number[] | Promise<number[]>;
+
+export const checkBatchSize = (xs: unknown[], fxs: number[]) => {
+  if (fxs.length !== xs.length) {
+    throw new Error(
+      `Batched objective returned ${fxs.length} values for ${xs.length} points`,
+    );
+  }
+};
+
+// Returns a function that evaluates several independent points: in a single
+// call to the batched objective if one is given, concurrently if `parallel`
+// is set, and one after another otherwise. `concurrency` limits the number of
+// points evaluated at the same time, or in the same batch.
+export const batchEvaluator = <T>(
+  evaluate: (v: T) => Promise<number>,
+  parallel?: boolean | BatchObjective<T>,
+  signal?: AbortSignal,
+  concurrency = Infinity,
+) => {
+  if (typeof parallel === "function") {
+    const fBatch = abortable(parallel, signal);
+    return async (xs: T[]) => {
+      const fxs: number[] = [];
+      for (let i = 0; i < xs.length; i += concurrency) {
+        const chunk = xs.slice(i, i + concurrency);
+        const values = await fBatch(chunk);
+        checkBatchSize(chunk, values);
+        fxs.push(...values);
+      }
+      return fxs;
+    };
+  }
+
+  if (parallel && concurrency < Infinity) {
+    return async (xs: T[]) => {
+      const fxs = new Array<number>(xs.length);
+      let next = 0;
+      // No evaluation is started once the batch failed or was aborted:
+      let failed = false;
+      const worker = async () => {
+        while (!failed && !signal?.aborted && next < xs.length) {
+          const i = next++;
+          try {
+            fxs[i] = await evaluate(xs[i]);
+          } catch (e) {
+            failed = true;
+            throw e;
+          }
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, xs.length) }, worker),
+      );
+      return fxs;
+    };
+  }
+
+  if (parallel) {
+    return (xs: T[]) => Promise.all(xs.map(evaluate));
+  }
+
+  return async (xs: T[]) => {
+    const fxs: number[] = [];
+    for (const x of xs) {
+      fxs.push(await evaluate(x));
+    }
+    return fxs;
+  };
+};
@@ -0,0 +1,17 @@
+export type Bounds = ([number, number] | null)[];
+
+// Clamps each coordinate into its bounds. Coordinates without bounds (or with
+// a `null` entry) are left untouched.
+export const constrain = (x: number[], bounds: Bounds) => {
+  for (let i = 0; i < bounds.length; i++) {
+    const ibounds = bounds[i];
+    if (!ibounds) continue;
+    if (isFinite(ibounds[0])) {
+      x[i] = Math.max(ibounds[0], x[i]);
+    }
+    if (isFinite(ibounds[1])) {
+      x[i] = Math.min(ibounds[1], x[i]);
+    }
+  }
+  return x;
+};
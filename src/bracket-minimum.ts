@@ -1,33 +1,79 @@
+import { AbortedError, abortable } from "./abortable";
+import { BatchObjective, batchEvaluator } from "./batchEvaluator";
+import { BudgetOptions, withBudget } from "./budget";
+
 export const bracketMinimum = async (
   bounds: [number, number],
-  f: (v: number) => number | Promise<number>,
+  f: (v: number, signal?: AbortSignal) => number | Promise<number>,
   x0: number,
   dx: number,
   xMin: number,
   xMax: number,
-) => {
+  signal?: AbortSignal,
+  parallel?: boolean | BatchObjective<number>,
+  budget?: BudgetOptions,
+): Promise<[number, number]> => {
+  if (budget) {
+    return withBudget(
+      budget,
+      f,
+      signal,
+      parallel,
+      undefined,
+      (f, signal, parallel) =>
+        bracketMinimum(bounds, f, x0, dx, xMin, xMax, signal, parallel),
+    );
+  }
+
+  const evaluate = abortable(f, signal);
+  const evaluateAll = batchEvaluator(evaluate, parallel, signal);
+
   // If either size is unbounded (=infinite), Expand the guess
   // range until we either bracket a minimum or until we reach the bounds:
   let fU, fL, fMin, n, xL, xU, bounded;
   n = 1;
   xL = x0;
   xU = x0;
-  fMin = fL = fU = await f(x0);
+  try {
+    fMin = fL = fU = await evaluate(x0);
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    bounds[0] = NaN;
+    bounds[1] = NaN;
+    return bounds;
+  }
+
   while (!bounded && isFinite(dx) && !isNaN(dx)) {
     ++n;
     bounded = true;
 
-    if (fL <= fMin) {
-      fMin = fL;
-      xL = Math.max(xMin, xL - dx);
-      fL = await f(xL);
-      bounded = false;
-    }
-    if (fU <= fMin) {
-      fMin = fU;
-      xU = Math.min(xMax, xU + dx);
-      fU = await f(xU);
-      bounded = false;
+    // The decision to expand either side only depends on values that are
+    // already known, so both expansions can be evaluated together:
+    const expandL = fL <= fMin;
+    if (expandL) fMin = fL;
+    const expandU = fU <= fMin;
+    if (expandU) fMin = fU;
+
+    const xs: number[] = [];
+    if (expandL) xs.push(Math.max(xMin, xL - dx));
+    if (expandU) xs.push(Math.min(xMax, xU + dx));
+
+    try {
+      const fxs = await evaluateAll(xs);
+      if (expandL) {
+        xL = xs[0];
+        fL = fxs[0];
+        bounded = false;
+      }
+      if (expandU) {
+        xU = xs[xs.length - 1];
+        fU = fxs[fxs.length - 1];
+        bounded = false;
+      }
+    } catch (e) {
+      if (!(e instanceof AbortedError)) throw e;
+      // Stop expanding and report the range explored so far:
+      break;
     }
 
     // Track the smallest value seen so far:
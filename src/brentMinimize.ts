@@ -0,0 +1,320 @@
+import { AbortedError, abortable } from "./abortable";
+import { BatchObjective, batchEvaluator } from "./batchEvaluator";
+import { BudgetOptions, withBudget } from "./budget";
+import { CheckpointOptions } from "./checkpoint";
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { Minimizer1DState } from "./minimize1D";
+import { Sampler } from "./noise";
+import { StopReason } from "./optimizationStatus";
+import { IterationCallback } from "./progress";
+
+const GOLDEN = (3 - Math.sqrt(5)) / 2;
+const SQRT_EPSILON = Math.sqrt(Number.EPSILON);
+
+export interface BrentState {
+  method: "brent";
+  iteration: number;
+  lowerBound: number;
+  upperBound: number;
+  a: number;
+  b: number;
+  x: number;
+  w: number;
+  v: number;
+  fx: number;
+  fw: number;
+  fv: number;
+  d: number;
+  e: number;
+  f10: number;
+  f20: number;
+}
+
+// Brent's method: parabolic interpolation through the three best points, with
+// golden section steps whenever the parabola can't be trusted. See R. P.
+// Brent, "Algorithms for Minimization without Derivatives", chapter 5.
+export const brentMinimize = async (
+  f: (v: number, signal?: AbortSignal) => number | Promise<number>,
+  xL: number,
+  xU: number,
+  tol: number,
+  maxIterations: number,
+  status?: GoldenSectionMinimizeStatus,
+  signal?: AbortSignal,
+  parallel?: boolean | BatchObjective<number>,
+  onIteration?: IterationCallback<number>,
+  checkpoint?: CheckpointOptions<Minimizer1DState>,
+  budget?: BudgetOptions,
+  sampler?: Sampler,
+): Promise<number | undefined> => {
+  if (budget) {
+    return withBudget(
+      budget,
+      f,
+      signal,
+      parallel,
+      status,
+      (f, signal, parallel) =>
+        brentMinimize(
+          f,
+          xL,
+          xU,
+          tol,
+          maxIterations,
+          status,
+          signal,
+          parallel,
+          onIteration,
+          checkpoint,
+          undefined,
+          sampler,
+        ),
+    );
+  }
+
+  const resume = checkpoint?.resume;
+  if (resume && resume.method !== "brent") {
+    throw new Error(
+      `Can't resume Brent's method from a ${resume.method} state`,
+    );
+  }
+  if (resume) {
+    xL = resume.lowerBound;
+    xU = resume.upperBound;
+  }
+
+  let iteration = 0;
+  let stopped = false;
+  let noisy = false;
+  let a = xL;
+  let b = xU;
+  // x is the best point so far, w the second best and v the previous value
+  // of w:
+  let x = a + GOLDEN * (b - a);
+  let w = x;
+  let v = x;
+  let fx: number, fw: number, fv: number, f10: number, f20: number;
+  // The last and the second to last step:
+  let d = 0;
+  let e = 0;
+  // The tolerance is split over both sides of x:
+  const t = tol / 4;
+
+  // Keep track of the best point seen so that it can be returned if the
+  // search is aborted:
+  let xBest: number | undefined;
+  let fBest = Infinity;
+  const track = (x: number, fx: number) => {
+    if (fx < fBest) {
+      xBest = x;
+      fBest = fx;
+    }
+  };
+  const abortableF = abortable(f, signal);
+  const evaluate = async (x: number) => {
+    const fx = await abortableF(x);
+    track(x, fx);
+    return fx;
+  };
+  const evaluateAll = batchEvaluator(evaluate, parallel, signal);
+
+  try {
+    // As for the golden section search, the bounds are evaluated as well, as
+    // the search only approaches them:
+    if (resume) {
+      ({ iteration, a, b, x, w, v, fx, fw, fv, d, e, f10, f20 } = resume);
+      track(x, fx);
+    } else {
+      const xs = [x, xL, xU];
+      const fxs = await evaluateAll(xs);
+      xs.forEach((x, i) => track(x, fxs[i]));
+      [fx, f10, f20] = fxs;
+      fw = fv = fx;
+    }
+
+    while (++iteration < maxIterations && !isNaN(fx)) {
+      const m = 0.5 * (a + b);
+      const tol1 = SQRT_EPSILON * Math.abs(x) + t;
+      const tol2 = 2 * tol1;
+
+      if (Math.abs(x - m) <= tol2 - 0.5 * (b - a)) {
+        break;
+      }
+
+      let golden = true;
+      if (Math.abs(e) > tol1) {
+        // Fit a parabola through x, w and v:
+        let r = (x - w) * (fx - fv);
+        let q = (x - v) * (fx - fw);
+        let p = (x - v) * q - (x - w) * r;
+        q = 2 * (q - r);
+        if (q > 0) {
+          p = -p;
+        } else {
+          q = -q;
+        }
+        r = e;
+        e = d;
+
+        // Only accept the parabolic step if it falls within the bracket and
+        // is less than half of the step before last:
+        if (
+          Math.abs(p) < Math.abs(0.5 * q * r) &&
+          p > q * (a - x) &&
+          p < q * (b - x)
+        ) {
+          d = p / q;
+          golden = false;
+          // f must not be evaluated too close to the bracket:
+          const u = x + d;
+          if (u - a < tol2 || b - u < tol2) {
+            d = x < m ? tol1 : -tol1;
+          }
+        }
+      }
+
+      if (golden) {
+        e = (x < m ? b : a) - x;
+        d = GOLDEN * e;
+      }
+
+      // f must not be evaluated too close to x:
+      const u = x + (Math.abs(d) >= tol1 ? d : d > 0 ? tol1 : -tol1);
+      let fu = await evaluate(u);
+
+      // Near convergence, noise may decide the comparison of fu and fx, so
+      // more samples are taken of the points the next step depends on. Once
+      // that isn't possible anymore, the search has converged as far as the
+      // noise permits:
+      if (sampler?.indistinguishable(fu, fx)) {
+        if (!sampler.refine()) {
+          noisy = true;
+          break;
+        }
+        [fx, fw, fv, fu] = await evaluateAll([x, w, v, u]);
+      }
+
+      if (fu <= fx) {
+        if (u < x) {
+          b = x;
+        } else {
+          a = x;
+        }
+        v = w;
+        fv = fw;
+        w = x;
+        fw = fx;
+        x = u;
+        fx = fu;
+      } else {
+        if (u < x) {
+          a = u;
+        } else {
+          b = u;
+        }
+        if (fu <= fw || w === x) {
+          v = w;
+          fv = fw;
+          w = u;
+          fw = fu;
+        } else if (fu <= fv || v === x || v === w) {
+          v = u;
+          fv = fu;
+        }
+      }
+
+      if (checkpoint?.onCheckpoint) {
+        await checkpoint.onCheckpoint({
+          method: "brent",
+          iteration,
+          lowerBound: xL,
+          upperBound: xU,
+          a,
+          b,
+          x,
+          w,
+          v,
+          fx,
+          fw,
+          fv,
+          d,
+          e,
+          f10,
+          f20,
+        });
+      }
+
+      if (
+        onIteration &&
+        (await onIteration({ x, fx, iteration, stepSize: b - a }))
+      ) {
+        stopped = true;
+        break;
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof AbortedError)) throw error;
+    if (status) {
+      status.iterations = iteration;
+      status.argmin = xBest ?? NaN;
+      status.minimum = fBest;
+      status.converged = false;
+      status.aborted = true;
+      status.x = xBest ?? NaN;
+      status.fx = fBest;
+      status.reason = StopReason.Aborted;
+    }
+    return xBest;
+  }
+
+  if (status) {
+    status.iterations = iteration;
+    status.argmin = x;
+    status.minimum = fx;
+    status.converged = true;
+    status.aborted = false;
+    status.x = x;
+    status.fx = fx;
+    status.reason = noisy ? StopReason.Noise : StopReason.Tolerance;
+  }
+
+  if (stopped) {
+    if (status) {
+      status.converged = false;
+      status.reason = StopReason.StoppedByCallback;
+    }
+    return x;
+  }
+
+  if (iteration === maxIterations) {
+    if (status) {
+      status.converged = false;
+      status.reason = StopReason.MaxIterations;
+    }
+    return x;
+  }
+
+  if (isNaN(fx)) {
+    if (status) {
+      status.converged = false;
+      status.reason = StopReason.NaN;
+    }
+    return undefined;
+  }
+
+  if (f10 < fx) {
+    if (status) {
+      status.x = xL;
+      status.fx = f10;
+    }
+    return xL;
+  } else if (f20 < fx) {
+    if (status) {
+      status.x = xU;
+      status.fx = f20;
+    }
+    return xU;
+  } else {
+    return x;
+  }
+};
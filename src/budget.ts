@@ -0,0 +1,118 @@
+import { AbortedError } from "./abortable";
+import { BatchObjective } from "./batchEvaluator";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+
+export interface BudgetOptions {
+  // Maximum number of calls to the objective. Every point of a batch counts
+  // as a call, cached evaluations don't count.
+  maxEvaluations?: number;
+  // Time in milliseconds after which no new evaluations are issued. Running
+  // evaluations are notified through their abort signal.
+  timeoutMs?: number;
+}
+
+// Enforces a budget by aborting the optimization once it is exhausted, which
+// makes the optimizers stop and return the best point seen. The returned
+// signal is aborted when either the budget runs out or the given signal is
+// aborted, and has to be used by the optimizer instead of the latter. `reason`
+// tells whether the budget stopped the optimization.
+export const limitEvaluations = (
+  options?: BudgetOptions,
+  signal?: AbortSignal,
+) => {
+  const maxEvaluations = options?.maxEvaluations ?? Infinity;
+  const timeoutMs = options?.timeoutMs;
+  const controller = new AbortController();
+  let evaluations = 0;
+  let reason: StopReason | undefined;
+
+  const stop = (r?: StopReason) => {
+    if (controller.signal.aborted) return;
+    reason = r;
+    controller.abort();
+  };
+  const onAbort = () => stop();
+  if (signal?.aborted) stop();
+  signal?.addEventListener("abort", onAbort);
+
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => stop(StopReason.Timeout), timeoutMs);
+
+  // Reserves the evaluation of n points:
+  const take = (n: number) => {
+    if (evaluations + n > maxEvaluations) {
+      stop(StopReason.MaxEvaluations);
+      throw new AbortedError();
+    }
+    evaluations += n;
+  };
+
+  const limit =
+    <T>(f: (v: T, signal?: AbortSignal) => number | Promise<number>) =>
+    (v: T, signal?: AbortSignal) => {
+      take(1);
+      return signal ? f(v, signal) : f(v);
+    };
+
+  const limitBatch =
+    <T>(fBatch: BatchObjective<T>): BatchObjective<T> =>
+    (xs, signal) => {
+      take(xs.length);
+      return signal ? fBatch(xs, signal) : fBatch(xs);
+    };
+
+  // Stops the timer and detaches from the given signal:
+  const dispose = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+
+  return {
+    signal: controller.signal,
+    limit,
+    limitBatch,
+    reason: () => reason,
+    stop,
+    dispose,
+  };
+};
+
+// Reports an optimization that was stopped on purpose, e.g. by its budget, as
+// such rather than as aborted:
+export const reportBudget = (
+  status: OptimizationStatus<unknown> | undefined,
+  reason: StopReason | undefined,
+) => {
+  if (status && reason && status.reason === StopReason.Aborted) {
+    status.reason = reason;
+    status.aborted = false;
+  }
+};
+
+// Runs a low-level routine with its objective limited to the budget:
+export const withBudget = async <T, R>(
+  options: BudgetOptions,
+  f: (v: T, signal?: AbortSignal) => number | Promise<number>,
+  signal: AbortSignal | undefined,
+  parallel: boolean | BatchObjective<T> | undefined,
+  status: OptimizationStatus<unknown> | undefined,
+  run: (
+    f: (v: T, signal?: AbortSignal) => number | Promise<number>,
+    signal: AbortSignal,
+    parallel: boolean | BatchObjective<T> | undefined,
+  ) => Promise<R>,
+) => {
+  const limits = limitEvaluations(options, signal);
+  try {
+    return await run(
+      limits.limit(f),
+      limits.signal,
+      typeof parallel === "function" ? limits.limitBatch(parallel) : parallel,
+    );
+  } finally {
+    limits.dispose();
+    reportBudget(status, limits.reason());
+  }
+};
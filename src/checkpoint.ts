@@ -0,0 +1,10 @@
+// Options to save the state of a long running optimization and to continue
+// it later. The states are plain JSON, so they can be stored anywhere. Note
+// that non-finite objective values don't survive `JSON.stringify`.
+export interface CheckpointOptions<S> {
+  // Called with the current state after every iteration:
+  onCheckpoint?: (state: S) => void | Promise<void>;
+  // A state passed to `onCheckpoint` by an earlier run, from which the
+  // optimization continues instead of starting over:
+  resume?: S;
+}
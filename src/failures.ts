@@ -0,0 +1,132 @@
+import { AbortedError } from "./abortable";
+import { BatchObjective } from "./batchEvaluator";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+
+export type FailurePolicy = "throw" | "penalty" | "abort";
+
+export interface FailureOptions {
+  // How often a rejected evaluation is retried. Defaults to 0.
+  retries?: number;
+  // Delay in milliseconds before the first retry, doubling with every further
+  // retry. Defaults to 100.
+  retryDelayMs?: number;
+  // What to do with evaluations that still reject after retrying, or that
+  // return NaN: "throw" rejects the optimization and passes NaN on to the
+  // optimizer, "penalty" uses +Infinity as their value, and "abort" stops the
+  // optimization with the best point so far. Defaults to "throw".
+  onFailure?: FailurePolicy;
+}
+
+export interface EvaluationFailure<T> {
+  x: T;
+  // The last error, or undefined if the objective returned NaN:
+  error?: unknown;
+  attempts: number;
+}
+
+// Resolves after the delay, or as soon as the signal is aborted:
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+const copy = <T>(x: T) => (Array.isArray(x) ? x.slice() : x) as T;
+
+// Retries rejected evaluations and applies the failure policy. The failed
+// points are reported in `status.failures`, which has to be initialized by
+// the caller. `stop` aborts the optimization for the "abort" policy.
+export const handleFailures = <T>(
+  options: FailureOptions | undefined,
+  status: OptimizationStatus<unknown> | undefined,
+  stop: (reason: StopReason) => void,
+) => {
+  const retries = options?.retries ?? 0;
+  const retryDelayMs = options?.retryDelayMs ?? 100;
+  const policy = options?.onFailure ?? "throw";
+
+  const fail = (x: T, error: unknown, attempts: number) => {
+    status?.failures?.push({ x: copy(x), error, attempts });
+    if (policy === "abort") {
+      stop(StopReason.EvaluationFailed);
+      throw new AbortedError();
+    }
+  };
+
+  // Evaluates, retrying with increasing delays until the retries are used up:
+  const attempt = async <R>(
+    evaluate: () => R | Promise<R>,
+    onError: (error: unknown) => R,
+    signal?: AbortSignal,
+  ) => {
+    for (let i = 0; ; i++) {
+      try {
+        return await evaluate();
+      } catch (e) {
+        // Neither retry nor penalize evaluations that were aborted:
+        if (e instanceof AbortedError || signal?.aborted) throw e;
+        if (i === retries) {
+          if (policy === "throw") throw e;
+          return onError(e);
+        }
+      }
+      if (retryDelayMs > 0) {
+        await sleep(retryDelayMs * 2 ** i, signal);
+        if (signal?.aborted) throw new AbortedError();
+      }
+    }
+  };
+
+  const check = (x: T, fx: number, attempts: number) => {
+    if (isNaN(fx) && policy !== "throw") {
+      fail(x, undefined, attempts);
+      return Infinity;
+    }
+    return fx;
+  };
+
+  const handle =
+    (f: (v: T, signal?: AbortSignal) => number | Promise<number>) =>
+    async (x: T, signal?: AbortSignal) => {
+      let attempts = 0;
+      const fx = await attempt(
+        () => {
+          attempts++;
+          return signal ? f(x, signal) : f(x);
+        },
+        (error) => {
+          fail(x, error, attempts);
+          return Infinity;
+        },
+        signal,
+      );
+      return check(x, fx, attempts);
+    };
+
+  // A failing batch is retried as a whole:
+  const handleBatch =
+    (fBatch: BatchObjective<T>): BatchObjective<T> =>
+    async (xs, signal) => {
+      let attempts = 0;
+      const fxs = await attempt(
+        () => {
+          attempts++;
+          return signal ? fBatch(xs, signal) : fBatch(xs);
+        },
+        (error) => {
+          xs.forEach((x) => fail(x, error, attempts));
+          return xs.map(() => Infinity);
+        },
+        signal,
+      );
+      return fxs.map((fx, i) => check(xs[i], fx, attempts));
+    };
+
+  return { handle, handleBatch };
+};
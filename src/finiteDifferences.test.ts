@@ -0,0 +1,188 @@
+import { AbortedError } from "./abortable";
+import { estimateGradient, estimateHessian } from "./finiteDifferences";
+import { assertVectorAlmostEqual } from "./testUtils";
+
+// f = x^3 + x y^2 + exp(y), with
+// gradient = [3 x^2 + y^2, 2 x y + exp(y)] and
+// Hessian = [[6 x, 2 y], [2 y, 2 x + exp(y)]]:
+const f = (x: number[]) => x[0] ** 3 + x[0] * x[1] ** 2 + Math.exp(x[1]);
+
+describe("estimateGradient", () => {
+  test("uses central differences by default", async () => {
+    assertVectorAlmostEqual(
+      await estimateGradient(f, [1, 2]),
+      [7, 4 + Math.exp(2)],
+      1e-8,
+    );
+  });
+
+  test("uses forward differences", async () => {
+    let evaluations = 0;
+    const gradient = await estimateGradient(
+      (x) => {
+        evaluations++;
+        return f(x);
+      },
+      [1, 2],
+      { method: "forward", fx: f([1, 2]) },
+    );
+    assertVectorAlmostEqual(gradient, [7, 4 + Math.exp(2)], 1e-5);
+    expect(evaluations).toBe(2);
+  });
+
+  test("evaluates within the bounds", async () => {
+    const points: number[][] = [];
+    const bounds: [number, number][] = [
+      [0, 1],
+      [2, 3],
+    ];
+    for (const method of ["forward", "central"] as const) {
+      const gradient = await estimateGradient(
+        (x) => {
+          points.push(x.slice());
+          return f(x);
+        },
+        [1, 2],
+        { method, bounds },
+      );
+      assertVectorAlmostEqual(gradient, [7, 4 + Math.exp(2)], 1e-5);
+    }
+    for (const p of points) {
+      expect(p[0]).toBeLessThanOrEqual(1);
+      expect(p[1]).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  test("shortens the step between close bounds", async () => {
+    const points: number[] = [];
+    const gradient = await estimateGradient(
+      (x) => {
+        points.push(x[0]);
+        return x[0] * x[0];
+      },
+      [0.5],
+      { step: 1, bounds: [[0.4, 0.6]] },
+    );
+    assertVectorAlmostEqual(gradient, [1]);
+    expect(Math.min(...points)).toBeGreaterThanOrEqual(0.4);
+    expect(Math.max(...points)).toBeLessThanOrEqual(0.6);
+  });
+
+  test("evaluates concurrently", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await estimateGradient(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return f(x);
+      },
+      [1, 2],
+      { parallel: true },
+    );
+    expect(maxRunning).toBe(5);
+  });
+
+  const countRunning = async (
+    options?: Parameters<typeof estimateGradient>[2],
+  ) => {
+    let running = 0;
+    let maxRunning = 0;
+    await estimateGradient(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return f(x);
+      },
+      [1, 2],
+      options,
+    );
+    return maxRunning;
+  };
+
+  test("evaluates concurrently by default", async () => {
+    expect(await countRunning()).toBe(5);
+  });
+
+  test("limits the number of concurrent evaluations", async () => {
+    expect(await countRunning({ concurrency: 2 })).toBe(2);
+  });
+
+  test("evaluates one after another if parallel is false", async () => {
+    expect(await countRunning({ parallel: false })).toBe(1);
+  });
+
+  test("evaluates in a single batch", async () => {
+    const batches: number[] = [];
+    await estimateGradient(f, [1, 2, 3], {
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(f);
+      },
+    });
+    expect(batches).toEqual([7]);
+  });
+
+  test("can be aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      estimateGradient(f, [1, 2], { signal: controller.signal }),
+    ).rejects.toThrow(AbortedError);
+  });
+});
+
+describe("estimateHessian", () => {
+  test("estimates the gradient and the Hessian", async () => {
+    let evaluations = 0;
+    const { value, gradient, hessian } = await estimateHessian(
+      async (x) => {
+        evaluations++;
+        await Promise.resolve();
+        return f(x);
+      },
+      [1, 2],
+    );
+    expect(value).toBe(f([1, 2]));
+    assertVectorAlmostEqual(gradient, [7, 4 + Math.exp(2)], 1e-6);
+    assertVectorAlmostEqual(hessian[0], [6, 4], 1e-6);
+    assertVectorAlmostEqual(hessian[1], [4, 2 + Math.exp(2)], 1e-6);
+    expect(evaluations).toBe(9);
+  });
+
+  test("is one-sided at the bounds", async () => {
+    const points: number[][] = [];
+    const { hessian } = await estimateHessian(
+      (x) => {
+        points.push(x.slice());
+        return f(x);
+      },
+      [1, 2],
+      {
+        bounds: [
+          [-1, 1],
+          [2, 3],
+        ],
+      },
+    );
+    // One-sided differences are only first order accurate:
+    assertVectorAlmostEqual(hessian[0], [6, 4], 1e-2);
+    assertVectorAlmostEqual(hessian[1], [4, 2 + Math.exp(2)], 1e-2);
+    for (const p of points) {
+      expect(p[0]).toBeLessThanOrEqual(1);
+      expect(p[1]).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  test("is exact for quadratics up to rounding", async () => {
+    const { hessian } = await estimateHessian(
+      (x) => 3 * x[0] * x[0] - x[0] * x[1] + 0.5 * x[1] * x[1] + x[2],
+      [10, -20, 5],
+    );
+    assertVectorAlmostEqual(hessian[0], [6, -1, 0], 1e-4);
+    assertVectorAlmostEqual(hessian[1], [-1, 1, 0], 1e-4);
+    assertVectorAlmostEqual(hessian[2], [0, 0, 0], 1e-4);
+  });
+});
@@ -0,0 +1,241 @@
+import { abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds } from "./bounds";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+
+export type FiniteDifferenceMethod = "forward" | "central";
+
+export interface FiniteDifferenceOptions<T extends number[] = number[]>
+  extends Omit<ObjectiveOptions<T>, "sense"> {
+  // Central differences are more accurate, but need twice as many
+  // evaluations. Defaults to "central". Hessians are always estimated with
+  // central differences.
+  method?: FiniteDifferenceMethod;
+  // The step in every dimension. Defaults to a step scaled to the magnitude
+  // of the coordinate that balances truncation and rounding errors.
+  step?: number;
+  // Differences are one-sided at the bounds, so that the objective is only
+  // evaluated within them:
+  bounds?: Bounds;
+  // The value at the point, if it is known already:
+  fx?: number;
+  // Maximum number of evaluations running at the same time, or in the same
+  // batch. The points are evaluated concurrently unless `parallel` is false,
+  // and all at once by default.
+  concurrency?: number;
+}
+
+export interface Derivatives {
+  value: number;
+  gradient: number[];
+  hessian: number[][];
+}
+
+// Relative steps minimizing the total error of the differences:
+const FORWARD_STEP = Math.sqrt(Number.EPSILON);
+const CENTRAL_STEP = Math.cbrt(Number.EPSILON);
+const HESSIAN_STEP = Math.sqrt(Math.sqrt(Number.EPSILON));
+
+// Chooses the offsets of the one (forward) or two (central) points used to
+// differentiate along a dimension. Points that would leave the bounds are
+// replaced by points on the other side, and the step is shortened if the
+// bounds are too close for that.
+const stencil = (
+  xi: number,
+  h: number,
+  points: 1 | 2,
+  bounds: [number, number] | null | undefined,
+) => {
+  const [lower, upper] = bounds ?? [-Infinity, Infinity];
+  h = Math.min(h, (upper - lower) / (2 * points));
+  if (points === 2 && xi - h >= lower && xi + h <= upper) return [h, -h];
+  const sign = xi + points * h <= upper ? 1 : -1;
+  return points === 1 ? [sign * h] : [sign * h, 2 * sign * h];
+};
+
+// Estimates the gradient and, with two points per dimension, the diagonal of
+// the Hessian and optionally the mixed second derivatives. All points are
+// evaluated together.
+const differences = async <T extends number[]>(
+  evaluateAll: (xs: T[]) => Promise<number[]>,
+  x: T,
+  fx: number | undefined,
+  points: 1 | 2,
+  mixed: boolean,
+  bounds: Bounds,
+  step: number | undefined,
+) => {
+  const n = x.length;
+  const relativeStep =
+    points === 1 ? FORWARD_STEP : mixed ? HESSIAN_STEP : CENTRAL_STEP;
+  const shift = (offsets: [number, number][]) => {
+    const p = x.slice() as T;
+    for (const [i, o] of offsets) p[i] += o;
+    return p;
+  };
+
+  const xs: T[] = fx === undefined ? [x.slice() as T] : [];
+  // The actual offsets differ from the chosen ones due to rounding:
+  const offsets = x.map((xi, i) =>
+    stencil(
+      xi,
+      step ?? relativeStep * Math.max(1, Math.abs(xi)),
+      points,
+      bounds[i],
+    ).map((o) => {
+      const p = shift([[i, o]]);
+      xs.push(p);
+      return p[i] - xi;
+    }),
+  );
+  // The mixed derivatives are taken from the corners of the rectangles
+  // spanned by the offsets of both dimensions:
+  if (mixed) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        for (const oi of offsets[i]) {
+          for (const oj of offsets[j]) {
+            xs.push(
+              shift([
+                [i, oi],
+                [j, oj],
+              ]),
+            );
+          }
+        }
+      }
+    }
+  }
+
+  const fs = await evaluateAll(xs);
+  let k = 0;
+  const f0 = fx ?? fs[k++];
+
+  const gradient: number[] = [];
+  const hessian = x.map(() => x.map(() => NaN));
+  for (let i = 0; i < n; i++) {
+    if (points === 1) {
+      const [a] = offsets[i];
+      gradient.push((fs[k++] - f0) / a);
+      continue;
+    }
+    // Derivatives of the quadratic through the three points:
+    const [a, b] = offsets[i];
+    const fa = fs[k++];
+    const fb = fs[k++];
+    gradient.push(
+      (-f0 * (a + b)) / (a * b) +
+        (fa * b) / (a * (b - a)) -
+        (fb * a) / (b * (b - a)),
+    );
+    hessian[i][i] =
+      2 * (f0 / (a * b) + fa / (a * (a - b)) + fb / (b * (b - a)));
+  }
+  if (mixed) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const [ai, bi] = offsets[i];
+        const [aj, bj] = offsets[j];
+        const [faa, fab, fba, fbb] = fs.slice(k, (k += 4));
+        hessian[i][j] = hessian[j][i] =
+          (faa - fab - fba + fbb) / ((ai - bi) * (aj - bj));
+      }
+    }
+  }
+  return { value: f0, gradient, hessian };
+};
+
+// Estimates the gradient at x with forward differences, given the value at x.
+// This is what the gradient based optimizers use for objectives that don't
+// return their gradient.
+export const forwardGradient = async <T extends number[]>(
+  evaluateAll: (xs: T[]) => Promise<number[]>,
+  x: T,
+  fx: number,
+  bounds: Bounds = [],
+  step?: number,
+) => (await differences(evaluateAll, x, fx, 1, false, bounds, step)).gradient;
+
+// Estimates the Jacobian of a vector valued function at x with forward
+// differences, given its value at x. Rows belong to the components of the
+// function and columns to the coordinates.
+export const forwardJacobian = async <T extends number[]>(
+  evaluateAll: (xs: T[]) => Promise<number[][]>,
+  x: T,
+  fx: number[],
+  bounds: Bounds = [],
+  step?: number,
+) => {
+  const xs = x.map((xi, i) => {
+    const h = step ?? FORWARD_STEP * Math.max(1, Math.abs(xi));
+    const p = x.slice() as T;
+    p[i] += stencil(xi, h, 1, bounds[i])[0];
+    return p;
+  });
+  const fs = await evaluateAll(xs);
+  return fx.map((fk, k) => xs.map((p, i) => (fs[i][k] - fk) / (p[i] - x[i])));
+};
+
+// Evaluates the objective like an optimizer would, which is aborted with an
+// `AbortedError`. The points are independent, so they are evaluated
+// concurrently unless that is turned off:
+const withObjective = async <T extends number[], R>(
+  f: Objective<T>,
+  options: FiniteDifferenceOptions<T> | undefined,
+  run: (evaluateAll: (xs: T[]) => Promise<number[]>) => Promise<R>,
+) => {
+  const objective = wrapObjective(f, options);
+  try {
+    const evaluate = abortable(objective.f, objective.signal);
+    return await run(
+      batchEvaluator(
+        evaluate,
+        objective.parallel ?? true,
+        objective.signal,
+        options?.concurrency,
+      ),
+    );
+  } finally {
+    objective.dispose();
+  }
+};
+
+// Estimates the gradient of f at x by finite differences:
+export const estimateGradient = <T extends number[]>(
+  f: Objective<T>,
+  x: T,
+  options?: FiniteDifferenceOptions<T>,
+) =>
+  withObjective(f, options, async (evaluateAll) => {
+    const points = options?.method === "forward" ? 1 : 2;
+    const { gradient } = await differences(
+      evaluateAll,
+      x,
+      options?.fx,
+      points,
+      false,
+      options?.bounds ?? [],
+      options?.step,
+    );
+    return gradient;
+  });
+
+// Estimates the gradient and the Hessian of f at x by central differences,
+// e.g. to approximate the covariance of a fitted minimum by the inverse of
+// the Hessian. Takes 2 n^2 + 1 evaluations in n dimensions.
+export const estimateHessian = <T extends number[]>(
+  f: Objective<T>,
+  x: T,
+  options?: FiniteDifferenceOptions<T>,
+): Promise<Derivatives> =>
+  withObjective(f, options, (evaluateAll) =>
+    differences(
+      evaluateAll,
+      x,
+      options?.fx,
+      2,
+      true,
+      options?.bounds ?? [],
+      options?.step,
+    ),
+  );
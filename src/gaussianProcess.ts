@@ -0,0 +1,118 @@
+import { cholesky, dot, solveCholesky } from "./linearAlgebra";
+import { minimizeNelderMead } from "./minimizeNelderMead";
+
+export type Kernel = "matern52" | "rbf";
+
+export interface Hyperparameters {
+  lengthScales: number[];
+  amplitude: number;
+  noise: number;
+}
+
+// The smallest noise variance, which keeps the covariance matrix positive
+// definite when points are close to each other:
+const MIN_NOISE = 1e-6;
+
+// The correlation of two points at the squared distance r2 in units of the
+// length scales:
+const correlation = (kernel: Kernel, r2: number) => {
+  if (kernel === "rbf") return Math.exp(-0.5 * r2);
+  const r = Math.sqrt(5 * r2);
+  return (1 + r + (5 * r2) / 3) * Math.exp(-r);
+};
+
+// Gaussian process regression of the values at the points with a zero prior
+// mean, or undefined if the covariance matrix isn't positive definite:
+export const gaussianProcess = (
+  kernel: Kernel,
+  points: number[][],
+  values: number[],
+  { lengthScales, amplitude, noise }: Hyperparameters,
+) => {
+  const variance = amplitude * amplitude;
+  const covariance = (a: number[], b: number[]) =>
+    variance *
+    correlation(
+      kernel,
+      a.reduce((sum, ai, i) => sum + ((ai - b[i]) / lengthScales[i]) ** 2, 0),
+    );
+
+  const l = cholesky(
+    points.map((a, i) =>
+      points.map((b, j) => covariance(a, b) + (i === j ? noise : 0)),
+    ),
+  );
+  if (!l) return undefined;
+  const alpha = solveCholesky(l, values);
+
+  // Solves L v = b:
+  const forward = (b: number[]) => {
+    const v = b.slice();
+    for (let i = 0; i < v.length; i++) {
+      for (let k = 0; k < i; k++) v[i] -= l[i][k] * v[k];
+      v[i] /= l[i][i];
+    }
+    return v;
+  };
+
+  return {
+    // The log of the marginal likelihood of the values:
+    logLikelihood:
+      -0.5 * dot(values, alpha) -
+      l.reduce((sum, row, i) => sum + Math.log(row[i]), 0) -
+      0.5 * values.length * Math.log(2 * Math.PI),
+    // The posterior mean and variance of the value at x, without noise:
+    predict: (x: number[]) => {
+      const k = points.map((p) => covariance(x, p));
+      const v = forward(k);
+      return {
+        mean: dot(k, alpha),
+        variance: Math.max(variance - dot(v, v), 0),
+      };
+    },
+  };
+};
+
+// Fits the hyperparameters by maximizing the marginal likelihood, starting
+// from the given ones. The points are expected within the unit cube and the
+// values to be standardized. The noise is only fitted if requested and kept
+// at its minimum otherwise.
+export const fitGaussianProcess = async (
+  kernel: Kernel,
+  points: number[][],
+  values: number[],
+  initial: Hyperparameters,
+  fitNoise: boolean,
+) => {
+  const n = initial.lengthScales.length;
+  const toHyperparameters = (p: number[]): Hyperparameters => ({
+    lengthScales: p.slice(0, n).map(Math.exp),
+    amplitude: Math.exp(p[n]),
+    noise: fitNoise ? Math.exp(p[n + 1]) : MIN_NOISE,
+  });
+
+  // The parameters are the logs of the hyperparameters:
+  const p0 = [
+    ...initial.lengthScales.map(Math.log),
+    Math.log(initial.amplitude),
+    ...(fitNoise ? [Math.log(Math.max(initial.noise, MIN_NOISE))] : []),
+  ];
+  const bounds: [number, number][] = [
+    ...initial.lengthScales.map((): [number, number] => [
+      Math.log(1e-3),
+      Math.log(1e2),
+    ]),
+    [Math.log(0.05), Math.log(20)],
+    ...(fitNoise ? [[Math.log(MIN_NOISE), 0] as [number, number]] : []),
+  ];
+  const p = await minimizeNelderMead(
+    (p: number[]) =>
+      -(
+        gaussianProcess(kernel, points, values, toHyperparameters(p))
+          ?.logLikelihood ?? -Infinity
+      ),
+    p0.map((pi, i) => Math.min(Math.max(pi, bounds[i][0]), bounds[i][1])),
+    { bounds, initialStep: 0.5, maxIter: 100 * (n + 2), tolerance: 1e-6 },
+  );
+  return toHyperparameters(p ?? p0);
+};
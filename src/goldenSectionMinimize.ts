@@ -1,81 +1,253 @@
+import { AbortedError, abortable } from "./abortable";
+import { BatchObjective, batchEvaluator } from "./batchEvaluator";
+import { BudgetOptions, withBudget } from "./budget";
+import { CheckpointOptions } from "./checkpoint";
+import { MemoizeStatus } from "./memoize";
+import { Minimizer1DState } from "./minimize1D";
+import { Sampler } from "./noise";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { IterationCallback } from "./progress";
+
 const PHI_RATIO = 2 / (1 + Math.sqrt(5));
 
-export interface GoldenSectionMinimizeStatus {
-  iterations?: number;
+export interface GoldenSectionMinimizeStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number> {
   argmin?: number;
   minimum?: number;
-  converged?: boolean;
+}
+
+export interface GoldenSectionState {
+  method: "goldenSection";
+  iteration: number;
+  lowerBound: number;
+  upperBound: number;
+  xL: number;
+  xU: number;
+  x1: number;
+  x2: number;
+  f1: number;
+  f2: number;
+  f10: number;
+  f20: number;
 }
 
 export const goldenSectionMinimize = async (
-  f: (v: number) => number | Promise<number>,
+  f: (v: number, signal?: AbortSignal) => number | Promise<number>,
   xL: number,
   xU: number,
   tol: number,
   maxIterations: number,
   status?: GoldenSectionMinimizeStatus,
-) => {
+  signal?: AbortSignal,
+  parallel?: boolean | BatchObjective<number>,
+  onIteration?: IterationCallback<number>,
+  checkpoint?: CheckpointOptions<Minimizer1DState>,
+  budget?: BudgetOptions,
+  sampler?: Sampler,
+): Promise<number | undefined> => {
+  if (budget) {
+    return withBudget(
+      budget,
+      f,
+      signal,
+      parallel,
+      status,
+      (f, signal, parallel) =>
+        goldenSectionMinimize(
+          f,
+          xL,
+          xU,
+          tol,
+          maxIterations,
+          status,
+          signal,
+          parallel,
+          onIteration,
+          checkpoint,
+          undefined,
+          sampler,
+        ),
+    );
+  }
+
+  const resume = checkpoint?.resume;
+  if (resume && resume.method !== "goldenSection") {
+    throw new Error(
+      `Can't resume a golden section search from a ${resume.method} state`,
+    );
+  }
+
   let iteration = 0;
+  let stopped = false;
+  let noisy = false;
   let x1 = xU - PHI_RATIO * (xU - xL);
   let x2 = xL + PHI_RATIO * (xU - xL);
-  // Initial bounds:
-  let f1 = await f(x1);
-  let f2 = await f(x2);
-
-  // Store these values so that we can return these if they're better.
-  // This happens when the minimization falls *approaches* but never
-  // actually reaches one of the bounds
-  const f10 = await f(xL);
-  const f20 = await f(xU);
-  const xL0 = xL;
-  const xU0 = xU;
-
-  // Simple, robust golden section minimization:
-  while (++iteration < maxIterations && Math.abs(xU - xL) > tol) {
-    if (f2 > f1) {
-      xU = x2;
-      x2 = x1;
-      f2 = f1;
-      x1 = xU - PHI_RATIO * (xU - xL);
-      f1 = await f(x1);
+  let f1: number, f2: number, f10: number, f20: number;
+  const xL0 = resume ? resume.lowerBound : xL;
+  const xU0 = resume ? resume.upperBound : xU;
+
+  // Keep track of the best point seen so that it can be returned if the
+  // search is aborted:
+  let xBest: number | undefined;
+  let fBest = Infinity;
+  const track = (x: number, fx: number) => {
+    if (fx < fBest) {
+      xBest = x;
+      fBest = fx;
+    }
+  };
+  const abortableF = abortable(f, signal);
+  const evaluate = async (x: number) => {
+    const fx = await abortableF(x);
+    track(x, fx);
+    return fx;
+  };
+  const evaluateAll = batchEvaluator(evaluate, parallel, signal);
+
+  try {
+    // Initial bounds. The values at the bounds are stored so that we can
+    // return these if they're better. This happens when the minimization
+    // falls *approaches* but never actually reaches one of the bounds:
+    if (resume) {
+      ({ iteration, xL, xU, x1, x2, f1, f2, f10, f20 } = resume);
+      track(x1, f1);
+      track(x2, f2);
     } else {
-      xL = x1;
-      x1 = x2;
-      f1 = f2;
-      x2 = xL + PHI_RATIO * (xU - xL);
-      f2 = await f(x2);
+      const xs = [x1, x2, xL, xU];
+      const fxs = await evaluateAll(xs);
+      xs.forEach((x, i) => track(x, fxs[i]));
+      [f1, f2, f10, f20] = fxs;
     }
+
+    // Simple, robust golden section minimization:
+    while (++iteration < maxIterations && Math.abs(xU - xL) > tol) {
+      // Near convergence, noise may decide the comparison of f1 and f2, so
+      // more samples are taken. Once that isn't possible anymore, the search
+      // has converged as far as the noise permits:
+      if (sampler?.indistinguishable(f1, f2)) {
+        if (!sampler.refine()) {
+          noisy = true;
+          break;
+        }
+        [f1, f2] = await evaluateAll([x1, x2]);
+      }
+
+      if (f2 > f1) {
+        xU = x2;
+        x2 = x1;
+        f2 = f1;
+        x1 = xU - PHI_RATIO * (xU - xL);
+        f1 = await evaluate(x1);
+      } else {
+        xL = x1;
+        x1 = x2;
+        f1 = f2;
+        x2 = xL + PHI_RATIO * (xU - xL);
+        f2 = await evaluate(x2);
+      }
+
+      if (checkpoint?.onCheckpoint) {
+        await checkpoint.onCheckpoint({
+          method: "goldenSection",
+          iteration,
+          lowerBound: xL0,
+          upperBound: xU0,
+          xL,
+          xU,
+          x1,
+          x2,
+          f1,
+          f2,
+          f10,
+          f20,
+        });
+      }
+
+      if (
+        onIteration &&
+        (await onIteration({
+          x: f2 > f1 ? x1 : x2,
+          fx: Math.min(f1, f2),
+          iteration,
+          stepSize: Math.abs(xU - xL),
+        }))
+      ) {
+        stopped = true;
+        break;
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    if (status) {
+      status.iterations = iteration;
+      status.argmin = xBest ?? NaN;
+      status.minimum = fBest;
+      status.converged = false;
+      status.aborted = true;
+      status.x = xBest ?? NaN;
+      status.fx = fBest;
+      status.reason = StopReason.Aborted;
+    }
+    return xBest;
   }
 
+  // The middle of the final bracket and the average of the values within it
+  // are kept in the legacy fields, while the result is the best point the
+  // objective was evaluated at:
   const xF = 0.5 * (xU + xL);
   const fF = 0.5 * (f1 + f2);
+  const x = xBest ?? xF;
+  const fx = xBest === undefined ? NaN : fBest;
 
   if (status) {
     status.iterations = iteration;
     status.argmin = xF;
     status.minimum = fF;
     status.converged = true;
+    status.aborted = false;
+    status.x = x;
+    status.fx = fx;
+    status.reason = noisy ? StopReason.Noise : StopReason.Tolerance;
+  }
+
+  if (stopped) {
+    if (status) {
+      status.converged = false;
+      status.reason = StopReason.StoppedByCallback;
+    }
+    return x;
   }
 
   if (iteration === maxIterations) {
     if (status) {
       status.converged = false;
+      status.reason = StopReason.MaxIterations;
     }
-    return xF;
+    return x;
   }
 
   if (isNaN(f2) || isNaN(f1)) {
     if (status) {
       status.converged = false;
+      status.reason = StopReason.NaN;
     }
     return undefined;
   }
 
-  if (f10 < fF) {
+  if (f10 < fx) {
+    if (status) {
+      status.x = xL0;
+      status.fx = f10;
+    }
     return xL0;
-  } else if (f20 < fF) {
+  } else if (f20 < fx) {
+    if (status) {
+      status.x = xU0;
+      status.fx = f20;
+    }
     return xU0;
   } else {
-    return xF;
+    return x;
   }
 };
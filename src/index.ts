@@ -0,0 +1,175 @@
+export { AbortedError } from "./abortable";
+export type { BatchObjective } from "./batchEvaluator";
+export type { Bounds } from "./bounds";
+export { bracketMinimum } from "./bracket-minimum";
+export type { BudgetOptions } from "./budget";
+export { brentMinimize } from "./brentMinimize";
+export type { BrentState } from "./brentMinimize";
+export type { CheckpointOptions } from "./checkpoint";
+export type {
+  EvaluationFailure,
+  FailureOptions,
+  FailurePolicy,
+} from "./failures";
+export {
+  estimateGradient,
+  estimateHessian,
+  forwardGradient,
+  forwardJacobian,
+} from "./finiteDifferences";
+export type {
+  Derivatives,
+  FiniteDifferenceMethod,
+  FiniteDifferenceOptions,
+} from "./finiteDifferences";
+export type { Kernel } from "./gaussianProcess";
+export { goldenSectionMinimize } from "./goldenSectionMinimize";
+export type {
+  GoldenSectionMinimizeStatus,
+  GoldenSectionState,
+} from "./goldenSectionMinimize";
+export { leastSquares, leastSquaresSteps } from "./leastSquares";
+export type {
+  LeastSquaresOptions,
+  LeastSquaresStatus,
+  Residuals,
+} from "./leastSquares";
+export { memoize } from "./memoize";
+export type { MemoizeOptions, MemoizeStatus, Memoized } from "./memoize";
+export { minimize } from "./minimize";
+export type {
+  Method1D,
+  MethodND,
+  Minimize1DOptions,
+  MinimizeNDOptions,
+} from "./minimize";
+export type {
+  BracketedMinimizer,
+  Minimizer1D,
+  Minimizer1DState,
+} from "./minimize1D";
+export { bobyqaSteps, maximizeBOBYQA, minimizeBOBYQA } from "./minimizeBOBYQA";
+export type { BOBYQAOptions, BOBYQAStatus } from "./minimizeBOBYQA";
+export {
+  bayesianSteps,
+  maximizeBayesian,
+  minimizeBayesian,
+} from "./minimizeBayesian";
+export type {
+  Acquisition,
+  BayesianOptions,
+  BayesianStatus,
+} from "./minimizeBayesian";
+export { cmaesSteps, maximizeCMAES, minimizeCMAES } from "./minimizeCMAES";
+export type {
+  CMAESOptions,
+  CMAESStatus,
+  RestartStrategy,
+} from "./minimizeCMAES";
+export {
+  constrainedSteps,
+  maximizeConstrained,
+  minimizeConstrained,
+} from "./minimizeConstrained";
+export type {
+  ConstrainedOptions,
+  ConstrainedStatus,
+  Constraint,
+  UnconstrainedMinimizer,
+} from "./minimizeConstrained";
+export {
+  differentialEvolutionSteps,
+  maximizeDifferentialEvolution,
+  minimizeDifferentialEvolution,
+} from "./minimizeDifferentialEvolution";
+export type {
+  DifferentialEvolutionOptions,
+  DifferentialEvolutionStatus,
+  DifferentialEvolutionStrategy,
+} from "./minimizeDifferentialEvolution";
+export {
+  brentSteps,
+  maximizeBrent1D,
+  minimizeBrent1D,
+} from "./minimizeBrent1D";
+export {
+  goldenSectionSteps,
+  maximizeGoldenSection1D,
+  minimizeGoldenSection1D,
+} from "./minimizeGoldenSection1D";
+export type { GoldenSectionMinimizeOptions } from "./minimizeGoldenSection1D";
+export {
+  fibonacciSteps,
+  maximizeFibonacci1D,
+  minimizeFibonacci1D,
+} from "./minimizeFibonacci1D";
+export type { FibonacciOptions } from "./minimizeFibonacci1D";
+export {
+  gradientDescentSteps,
+  maximizeGradientDescent,
+  minimizeGradientDescent,
+} from "./minimizeGradientDescent";
+export type { GradientDescentOptions } from "./minimizeGradientDescent";
+export { lbfgsSteps, maximizeLBFGS, minimizeLBFGS } from "./minimizeLBFGS";
+export type { LBFGSOptions, LBFGSStatus } from "./minimizeLBFGS";
+export { maximizeMixed, minimizeMixed, mixedSteps } from "./minimizeMixed";
+export type { MixedOptions, MixedStatus } from "./minimizeMixed";
+export { maximizeNamed, minimizeNamed, namedSteps } from "./minimizeNamed";
+export type { NamedOptions, NamedStatus } from "./minimizeNamed";
+export {
+  maximizeNelderMead,
+  minimizeNelderMead,
+  nelderMeadSteps,
+} from "./minimizeNelderMead";
+export type { NelderMeadOptions, NelderMeadStatus } from "./minimizeNelderMead";
+export { maximizePowell, minimizePowell, powellSteps } from "./minimizePowell";
+export type {
+  PowellOptions,
+  PowellState,
+  PowellStatus,
+} from "./minimizePowell";
+export { multiStart } from "./multiStart";
+export type {
+  LocalMinimizer,
+  LocalMinimum,
+  MultiStartOptions,
+  MultiStartStatus,
+} from "./multiStart";
+export type { NoiseOptions, Sampler } from "./noise";
+export type {
+  GradientObjective,
+  Objective,
+  ObjectiveOptions,
+  Sense,
+  ValueWithGradient,
+} from "./objective";
+export { StopReason } from "./optimizationStatus";
+export type { OptimizationStatus } from "./optimizationStatus";
+export type {
+  IterationCallback,
+  IterationInfo,
+  ProgressOptions,
+} from "./progress";
+export { samplePoints } from "./samplePoints";
+export {
+  fromUnitVector,
+  fromVector,
+  schemaSearchSpace,
+  toUnitVector,
+  toVector,
+} from "./schema";
+export type { Schema, SchemaValues } from "./schema";
+export type { SamplingMethod } from "./samplePoints";
+export {
+  checkSearchSpace,
+  fromUnitCube,
+  inSearchSpace,
+  toUnitCube,
+} from "./searchSpace";
+export type {
+  CategoricalVariable,
+  NumericVariable,
+  Scale,
+  SearchSpace,
+  Variable,
+} from "./searchSpace";
@@ -0,0 +1,151 @@
+import {
+  LeastSquaresStatus,
+  leastSquares,
+  leastSquaresSteps,
+} from "./leastSquares";
+import { StopReason } from "./optimizationStatus";
+import { assertVectorAlmostEqual } from "./testUtils";
+
+// Samples of y = a exp(-b t) + c with deterministic pseudo noise:
+const ts = Array.from({ length: 20 }, (_, i) => i * 0.25);
+const noise = ts.map((_, i) => 0.01 * Math.sin(7 * i));
+const ys = ts.map((t, i) => 2.5 * Math.exp(-1.3 * t) + 0.5 + noise[i]);
+const decay = (p: number[]) =>
+  ts.map((t, i) => p[0] * Math.exp(-p[1] * t) + p[2] - ys[i]);
+
+describe("leastSquares", () => {
+  test("solves the Rosenbrock problem", async () => {
+    const status: LeastSquaresStatus = {};
+    assertVectorAlmostEqual(
+      await leastSquares(
+        (x) => [10 * (x[1] - x[0] * x[0]), 1 - x[0]],
+        [-1.2, 1],
+        {},
+        status,
+      ),
+      [1, 1],
+    );
+    expect(status.converged).toBe(true);
+    expect(status.fx).toBeLessThan(1e-12);
+    // As many residuals as parameters:
+    expect(status.covariance).toBeUndefined();
+  });
+
+  test("fits an exponential decay with standard errors", async () => {
+    const status: LeastSquaresStatus = {};
+    const p = await leastSquares(decay, [1, 1, 0], {}, status);
+    assertVectorAlmostEqual(p, [2.5, 1.3, 0.5], 5e-2);
+    expect(status.converged).toBe(true);
+    expect(status.residuals).toHaveLength(ts.length);
+    expect(status.jacobian).toHaveLength(ts.length);
+    expect(status.covariance).toHaveLength(3);
+    expect(status.covariance![0][1]).toBeCloseTo(status.covariance![1][0]);
+    for (let i = 0; i < 3; i++) {
+      expect(status.standardErrors![i]).toBeGreaterThan(0);
+      expect(status.standardErrors![i]).toBeLessThan(0.05);
+    }
+  });
+
+  test("uses the given Jacobian", async () => {
+    const withJacobian: LeastSquaresStatus = {};
+    const estimated: LeastSquaresStatus = {};
+    const jacobian = (p: number[]) =>
+      ts.map((t) => [Math.exp(-p[1] * t), -p[0] * t * Math.exp(-p[1] * t), 1]);
+    const p = await leastSquares(decay, [1, 1, 0], { jacobian }, withJacobian);
+    const q = await leastSquares(decay, [1, 1, 0], {}, estimated);
+    assertVectorAlmostEqual(p, q!, 1e-4);
+    expect(withJacobian.evaluations).toBeLessThan(estimated.evaluations!);
+  });
+
+  test("evaluates the Jacobian in parallel", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await leastSquares(
+      async (p) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return decay(p);
+      },
+      [1, 1, 0],
+      { parallel: true, maxIter: 2 },
+    );
+    expect(maxRunning).toBe(3);
+  });
+
+  test("stays within bounds", async () => {
+    const status: LeastSquaresStatus = {};
+    const points: number[][] = [];
+    const p = await leastSquares(
+      (p) => {
+        points.push(p.slice());
+        return decay(p);
+      },
+      [1, 1, 0],
+      { bounds: [null, [0, 1]] },
+      status,
+    );
+    expect(p![1]).toBe(1);
+    expect(status.converged).toBe(true);
+    for (const q of points) {
+      expect(q[1]).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test("reports NaN", async () => {
+    const status: LeastSquaresStatus = {};
+    expect(await leastSquares(() => [NaN], [0], {}, status)).toBe(undefined);
+    expect(status.reason).toBe(StopReason.NaN);
+  });
+
+  test("stops after maxIter iterations", async () => {
+    const status: LeastSquaresStatus = {};
+    await leastSquares(decay, [1, 1, 0], { maxIter: 2 }, status);
+    expect(status.iterations).toBe(2);
+    expect(status.reason).toBe(StopReason.MaxIterations);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: LeastSquaresStatus = {};
+    const p = await leastSquares(
+      decay,
+      [1, 1, 0],
+      { maxEvaluations: 10 },
+      status,
+    );
+    expect(p).toBeDefined();
+    expect(status.evaluations).toBe(10);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+    expect(status.fx).toBeLessThan(
+      decay([1, 1, 0]).reduce((s, r) => s + r * r, 0),
+    );
+  });
+
+  test("can be aborted", async () => {
+    const controller = new AbortController();
+    const status: LeastSquaresStatus = {};
+    let evaluations = 0;
+    const p = await leastSquares(
+      (p) => {
+        if (++evaluations === 6) controller.abort();
+        return decay(p);
+      },
+      [1, 1, 0],
+      { signal: controller.signal },
+      status,
+    );
+    expect(p).toBeDefined();
+    expect(status.aborted).toBe(true);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of leastSquaresSteps(decay, [1, 1, 0])) {
+      steps.push(step);
+    }
+    expect(steps.length).toBeGreaterThan(2);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].fx).toBeLessThan(steps[i - 1].fx);
+    }
+  });
+});
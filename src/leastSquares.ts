@@ -0,0 +1,280 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds, constrain } from "./bounds";
+import { BudgetOptions } from "./budget";
+import { FailureOptions } from "./failures";
+import { forwardJacobian } from "./finiteDifferences";
+import {
+  cholesky,
+  dot,
+  invertSymmetric,
+  multiplyVector,
+  norm,
+  solveCholesky,
+  transpose,
+} from "./linearAlgebra";
+import { wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+
+export type Residuals<T> = (
+  x: T,
+  signal?: AbortSignal,
+) => number[] | Promise<number[]>;
+
+export interface LeastSquaresOptions<T extends number[] = number[]>
+  extends BudgetOptions,
+    FailureOptions,
+    ProgressOptions<T> {
+  signal?: AbortSignal;
+  // Evaluates the points of the finite differences concurrently:
+  parallel?: boolean;
+  maxIter?: number;
+  // Convergence requires either the relative decrease of the sum of squares,
+  // the largest component of its projected gradient or the relative length
+  // of the step to fall below these tolerances:
+  tolerance?: number;
+  gradientTolerance?: number;
+  stepTolerance?: number;
+  bounds?: Bounds;
+  // The Jacobian of the residuals, with a row per residual. Estimated by
+  // forward differences if not given.
+  jacobian?: (x: T, signal?: AbortSignal) => number[][] | Promise<number[][]>;
+  finiteDifferenceStep?: number;
+}
+
+// `fx` is the sum of squared residuals. The covariance of the parameters is
+// estimated from the Jacobian at the solution as s^2 (J^T J)^-1, where s^2 is
+// the variance of the residuals. It is only reported if there are more
+// residuals than parameters and J^T J is invertible.
+export interface LeastSquaresStatus extends OptimizationStatus<number[]> {
+  residuals?: number[];
+  jacobian?: number[][];
+  covariance?: number[][];
+  standardErrors?: number[];
+}
+
+const sumOfSquares = (r: number[]) => dot(r, r);
+
+// J^T J, which approximates half the Hessian of the sum of squares:
+const normalMatrix = (J: number[][]) => {
+  const Jt = transpose(J);
+  return Jt.map((ci) => Jt.map((cj) => dot(ci, cj)));
+};
+
+// Fits the parameters x by minimizing the sum of squared residuals with the
+// Levenberg-Marquardt method. Steps are projected onto the bounds, and
+// parameters at a bound that the gradient pushes outwards are held fixed.
+export const leastSquares = async <T extends number[]>(
+  residuals: Residuals<T>,
+  x0: T,
+  options?: LeastSquaresOptions<T>,
+  status?: LeastSquaresStatus,
+): Promise<T | undefined> => {
+  const n = x0.length;
+  const maxIter = options?.maxIter ?? 100 * Math.max(n, 1);
+  const tol = options?.tolerance ?? 1e-12;
+  const gTol = options?.gradientTolerance ?? 1e-10;
+  const xTol = options?.stepTolerance ?? 1e-12;
+  const bounds = options?.bounds ?? [];
+
+  // The sum of squares goes through budgets etc. like any other objective,
+  // while the residuals are put aside until they are picked up:
+  const pending = new Map<string, number[]>();
+  const cost = async (x: T, signal?: AbortSignal) => {
+    const r = await (signal ? residuals(x, signal) : residuals(x));
+    pending.set(JSON.stringify(x), r);
+    return sumOfSquares(r);
+  };
+  const objective = wrapObjective(cost, options, status);
+  const signal = objective.signal;
+  const evaluateAll = batchEvaluator(
+    abortable(objective.f, signal),
+    objective.parallel,
+    signal,
+  );
+  // Failed evaluations have no residuals:
+  const evaluateResiduals = async (xs: T[]) => {
+    await evaluateAll(xs);
+    return xs.map((x) => {
+      const key = JSON.stringify(x);
+      const r = pending.get(key);
+      pending.delete(key);
+      return r ?? [NaN];
+    });
+  };
+
+  const jacobian = options?.jacobian;
+  const evaluateJacobian = jacobian
+    ? abortable(
+        (x: T, signal?: AbortSignal) =>
+          signal ? jacobian(x, signal) : jacobian(x),
+        signal,
+      )
+    : (x: T) =>
+        forwardJacobian(
+          evaluateResiduals,
+          x,
+          r,
+          bounds,
+          options?.finiteDifferenceStep,
+        );
+
+  let x = constrain(x0.slice(), bounds) as T;
+  let r: number[] = [];
+  let fx = NaN;
+  let J: number[][] = [];
+  // The point the Jacobian belongs to:
+  let xJ: T | undefined;
+  let iter = 0;
+
+  // Reports the outcome, and the covariance if the Jacobian is valid:
+  const stop = (reason: StopReason, x: T | undefined, withJacobian = true) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? fx : NaN;
+      status.residuals = x ? r.slice() : undefined;
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+      status.jacobian = undefined;
+      status.covariance = undefined;
+      status.standardErrors = undefined;
+      if (x && withJacobian) {
+        status.jacobian = J.map((row) => row.slice());
+        const m = r.length;
+        const inverse = m > n ? invertSymmetric(normalMatrix(J)) : undefined;
+        if (inverse) {
+          const variance = fx / (m - n);
+          status.covariance = inverse.map((row) =>
+            row.map((v) => v * variance),
+          );
+          status.standardErrors = status.covariance.map((row, i) =>
+            Math.sqrt(row[i]),
+          );
+        }
+      }
+    }
+    return x;
+  };
+
+  try {
+    [r] = await evaluateResiduals([x]);
+    fx = sumOfSquares(r);
+    if (!isFinite(fx)) {
+      return stop(StopReason.NaN, undefined);
+    }
+
+    let lambda = NaN;
+    let nu = 2;
+    let stepSize = 0;
+    let converged = false;
+
+    for (;;) {
+      J = await evaluateJacobian(x);
+      xJ = x;
+      if (J.length !== r.length || J.some((row) => !row.every(isFinite))) {
+        return stop(StopReason.NaN, x, false);
+      }
+
+      if (
+        iter > 0 &&
+        options?.onIteration &&
+        (await options.onIteration({
+          x: x.slice() as T,
+          fx,
+          iteration: iter,
+          stepSize,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback, x);
+      }
+
+      // The normal equations and the gradient of half the sum of squares:
+      const JtJ = normalMatrix(J);
+      const g = multiplyVector(transpose(J), r);
+      const free = x.map((xi, i) => {
+        const b = bounds[i];
+        return !b || !((xi <= b[0] && g[i] > 0) || (xi >= b[1] && g[i] < 0));
+      });
+      const indices = free.flatMap((f, i) => (f ? [i] : []));
+
+      if (converged || indices.every((i) => Math.abs(g[i]) <= gTol)) {
+        return stop(StopReason.Tolerance, x);
+      }
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations, x);
+      }
+      ++iter;
+
+      if (isNaN(lambda)) {
+        lambda = 1e-3 * Math.max(...indices.map((i) => JtJ[i][i]), 1e-12);
+      }
+
+      // Increases the damping until a step decreases the sum of squares:
+      for (;;) {
+        const l = cholesky(
+          indices.map((i) =>
+            indices.map(
+              (j) => JtJ[i][j] + (i === j ? lambda * (JtJ[i][i] || 1) : 0),
+            ),
+          ),
+        );
+        if (l) {
+          const delta = solveCholesky(
+            l,
+            indices.map((i) => -g[i]),
+          );
+          const xNew = x.slice() as T;
+          indices.forEach((i, k) => (xNew[i] += delta[k]));
+          constrain(xNew, bounds);
+          const step = xNew.map((xi, i) => xi - x[i]);
+          if (norm(step) <= xTol * (norm(x) + xTol)) {
+            return stop(StopReason.Tolerance, x);
+          }
+
+          const [rNew] = await evaluateResiduals([xNew]);
+          const fNew = sumOfSquares(rNew);
+          // The decrease predicted by the linearized residuals:
+          const predicted =
+            -2 * dot(g, step) - sumOfSquares(multiplyVector(J, step));
+          const rho = (fx - fNew) / predicted;
+          if (rho > 0 && isFinite(fNew)) {
+            converged = fx - fNew <= tol * fx;
+            x = xNew;
+            r = rNew;
+            fx = fNew;
+            stepSize = norm(step);
+            lambda *= Math.max(1 / 3, 1 - (2 * rho - 1) ** 3);
+            nu = 2;
+            break;
+          }
+        }
+        lambda *= nu;
+        nu *= 2;
+        if (!isFinite(lambda)) {
+          return stop(StopReason.NoMovement, x);
+        }
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted, isNaN(fx) ? undefined : x, xJ === x);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const leastSquaresSteps = <T extends number[]>(
+  residuals: Residuals<T>,
+  x0: T,
+  options?: LeastSquaresOptions<T>,
+  status?: LeastSquaresStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    leastSquares(residuals, x0, { ...options, onIteration }, status),
+  );
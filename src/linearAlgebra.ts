@@ -0,0 +1,133 @@
+// Small dense linear algebra helpers for the model based optimizers. Matrices
+// are arrays of rows.
+
+export const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, ai, i) => sum + ai * b[i], 0);
+
+export const norm = (a: number[]) => Math.sqrt(dot(a, a));
+
+export const transpose = (a: number[][]) =>
+  a.length === 0 ? [] : a[0].map((_, j) => a.map((row) => row[j]));
+
+export const multiplyVector = (a: number[][], v: number[]) =>
+  a.map((row) => dot(row, v));
+
+// The lower triangular factor L with A = L L^T of a symmetric positive
+// definite matrix, or undefined if the matrix isn't positive definite:
+export const cholesky = (a: number[][]) => {
+  const n = a.length;
+  const l = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return undefined;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return l;
+};
+
+// Solves L L^T x = b given the Cholesky factor L:
+export const solveCholesky = (l: number[][], b: number[]) => {
+  const n = l.length;
+  const y = b.slice();
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < i; k++) y[i] -= l[i][k] * y[k];
+    y[i] /= l[i][i];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let k = i + 1; k < n; k++) y[i] -= l[k][i] * y[k];
+    y[i] /= l[i][i];
+  }
+  return y;
+};
+
+// The inverse of a symmetric positive definite matrix, or undefined if the
+// matrix isn't positive definite:
+export const invertSymmetric = (a: number[][]) => {
+  const l = cholesky(a);
+  if (!l) return undefined;
+  return a.map((_, j) =>
+    solveCholesky(
+      l,
+      a.map((_, i) => (i === j ? 1 : 0)),
+    ),
+  );
+};
+
+// Eigenvalues and eigenvectors of a symmetric matrix by the cyclic Jacobi
+// method. The eigenvectors are the columns of `vectors`.
+export const symmetricEigen = (a: number[][]) => {
+  const n = a.length;
+  const m = a.map((row) => row.slice());
+  const v = a.map((_, i) => a.map((_, j): number => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) off += m[i][j] * m[i][j];
+    }
+    if (off === 0 || !isFinite(off)) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (m[p][q] === 0) continue;
+        // The rotation that zeroes m[p][q]:
+        const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const mkp = m[k][p];
+          const mkq = m[k][q];
+          m[k][p] = c * mkp - s * mkq;
+          m[k][q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < n; k++) {
+          const mpk = m[p][k];
+          const mqk = m[q][k];
+          m[p][k] = c * mpk - s * mqk;
+          m[q][k] = s * mpk + c * mqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: m.map((row, i) => row[i]), vectors: v };
+};
+
+// Solves A x = b by Gaussian elimination with partial pivoting, or returns
+// undefined if the matrix is singular:
+export const solveLinear = (a: number[][], b: number[]) => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let j = 0; j < n; j++) {
+    let pivot = j;
+    for (let i = j + 1; i < n; i++) {
+      if (Math.abs(m[i][j]) > Math.abs(m[pivot][j])) pivot = i;
+    }
+    if (!(Math.abs(m[pivot][j]) > 0)) return undefined;
+    [m[j], m[pivot]] = [m[pivot], m[j]];
+    for (let i = j + 1; i < n; i++) {
+      const factor = m[i][j] / m[j][j];
+      for (let k = j; k <= n; k++) m[i][k] -= factor * m[j][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = m[i][n];
+    for (let k = i + 1; k < n; k++) sum -= m[i][k] * x[k];
+    x[i] = sum / m[i][i];
+  }
+  return x;
+};
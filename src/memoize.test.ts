@@ -0,0 +1,103 @@
+import { MemoizeStatus, memoize } from "./memoize";
+
+describe("memoize", () => {
+  test("evaluates every point only once", async () => {
+    const f = jest.fn((x: number) => x * x);
+    const memoized = memoize(f);
+    expect(await memoized(2)).toEqual(4);
+    expect(await memoized(2)).toEqual(4);
+    expect(f).toHaveBeenCalledTimes(1);
+    expect(memoized.status).toEqual({ cacheHits: 1, cacheMisses: 1 });
+  });
+
+  test("shares concurrent evaluations of the same point", async () => {
+    const f = jest.fn((x: number[]) => Promise.resolve(x[0] + x[1]));
+    const memoized = memoize(f);
+    expect(await Promise.all([memoized([1, 2]), memoized([1, 2])])).toEqual([
+      3, 3,
+    ]);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  test("rounds keys to the tolerance", async () => {
+    const f = jest.fn((x: number[]) => x[0]);
+    const memoized = memoize(f, { tolerance: 0.1 });
+    await memoized([1]);
+    expect(await memoized([1.01])).toEqual(1);
+    await memoized([1.1]);
+    expect(f).toHaveBeenCalledTimes(2);
+  });
+
+  test("evicts the least recently used entries", async () => {
+    const f = jest.fn((x: number) => x);
+    const memoized = memoize(f, { maxSize: 2 });
+    await memoized(1);
+    await memoized(2);
+    await memoized(1);
+    await memoized(3);
+    expect(memoized.entries()).toEqual([
+      [1, 1],
+      [3, 3],
+    ]);
+  });
+
+  test("does not cache failed evaluations", async () => {
+    let fail = true;
+    const memoized = memoize((x: number) => {
+      if (fail) throw new Error("failed");
+      return x;
+    });
+    await expect(memoized(1)).rejects.toThrow("failed");
+    fail = false;
+    expect(await memoized(1)).toEqual(1);
+  });
+
+  test("can be seeded and reports to a status object", async () => {
+    const status: MemoizeStatus = {};
+    const f = jest.fn((x: number[]) => x[0]);
+    const previous = memoize(f);
+    await previous([1, 2]);
+    const memoized = memoize(f, { seed: previous.entries() }, status);
+    expect(await memoized([1, 2])).toEqual(1);
+    expect(f).toHaveBeenCalledTimes(1);
+    expect(status).toEqual({ cacheHits: 1, cacheMisses: 0 });
+  });
+
+  test("only passes uncached points to a batched objective", async () => {
+    const fBatch = jest.fn((xs: number[]) => xs.map((x) => 2 * x));
+    const memoized = memoize((x: number) => 2 * x);
+    await memoized(1);
+    expect(await memoized.batch(fBatch)([1, 2, 3])).toEqual([2, 4, 6]);
+    expect(fBatch).toHaveBeenCalledWith([2, 3]);
+    expect(await memoized(3)).toEqual(6);
+  });
+
+  test("passes repeated points to a batched objective once", async () => {
+    const status: MemoizeStatus = {};
+    const fBatch = jest.fn((xs: number[]) => xs.map((x) => 2 * x));
+    const memoized = memoize((x: number) => 2 * x, {}, status);
+    expect(await memoized.batch(fBatch)([1, 1, 2])).toEqual([2, 2, 4]);
+    expect(fBatch).toHaveBeenCalledWith([1, 2]);
+    expect(status).toEqual({ cacheHits: 1, cacheMisses: 2 });
+  });
+
+  test("shares running evaluations with batches", async () => {
+    let resolve: (fx: number) => void = () => undefined;
+    const f = jest.fn(
+      (x: number) => new Promise<number>((r) => (resolve = () => r(2 * x))),
+    );
+    const fBatch = jest.fn((xs: number[]) => xs.map((x) => 2 * x));
+    const memoized = memoize(f);
+    const single = memoized(1);
+    const batched = memoized.batch(fBatch)([1, 2]);
+    resolve(2);
+    expect(await batched).toEqual([2, 4]);
+    expect(await single).toEqual(2);
+    expect(fBatch).toHaveBeenCalledWith([2]);
+
+    const fx = memoized.batch(fBatch)([3]);
+    expect(await memoized(3)).toEqual(6);
+    expect(await fx).toEqual([6]);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+});
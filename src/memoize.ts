@@ -0,0 +1,158 @@
+import { BatchObjective, checkBatchSize } from "./batchEvaluator";
+
+export interface MemoizeOptions<T> {
+  // Points whose coordinates round to the same multiple of `tolerance` share
+  // a cache entry. Defaults to 0, which only reuses exact matches.
+  tolerance?: number;
+  // Maximum number of cached values. The least recently used values are
+  // evicted first.
+  maxSize?: number;
+  // Previously evaluated points, e.g. from `entries()` of an earlier run.
+  seed?: Iterable<[T, number]>;
+}
+
+export interface MemoizeStatus {
+  cacheHits?: number;
+  cacheMisses?: number;
+}
+
+export interface Memoized<T> {
+  (v: T, signal?: AbortSignal): Promise<number>;
+  batch: (fBatch: BatchObjective<T>) => BatchObjective<T>;
+  entries: () => [T, number][];
+  status: MemoizeStatus;
+}
+
+const copy = <T extends number | number[]>(x: T) =>
+  (Array.isArray(x) ? x.slice() : x) as T;
+
+export const memoize = <T extends number | number[]>(
+  f: (v: T, signal?: AbortSignal) => number | Promise<number>,
+  options?: MemoizeOptions<T>,
+  status?: MemoizeStatus,
+): Memoized<T> => {
+  const tolerance = options?.tolerance ?? 0;
+  const maxSize = options?.maxSize ?? Infinity;
+  const stats = status ?? {};
+  stats.cacheHits = 0;
+  stats.cacheMisses = 0;
+
+  // Map iteration follows insertion order, so re-inserting an entry on every
+  // access keeps the least recently used entry first:
+  const cache = new Map<string, [T, number]>();
+  // Evaluations that are still running, so that concurrent requests for the
+  // same point share a single evaluation:
+  const pending = new Map<string, Promise<number>>();
+
+  const round = (v: number) => (tolerance > 0 ? Math.round(v / tolerance) : v);
+  const keyOf = (x: T) =>
+    JSON.stringify(Array.isArray(x) ? x.map(round) : round(x));
+
+  const lookup = (key: string) => {
+    const entry = cache.get(key);
+    if (entry) {
+      cache.delete(key);
+      cache.set(key, entry);
+    }
+    return entry;
+  };
+
+  const store = (key: string, x: T, fx: number) => {
+    cache.delete(key);
+    cache.set(key, [copy(x), fx]);
+    while (cache.size > maxSize) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  };
+
+  for (const [x, fx] of options?.seed ?? []) {
+    store(keyOf(x), x, fx);
+  }
+
+  const memoized = async (x: T, signal?: AbortSignal) => {
+    const key = keyOf(x);
+    const entry = lookup(key);
+    if (entry) {
+      stats.cacheHits!++;
+      return entry[1];
+    }
+    const running = pending.get(key);
+    if (running) {
+      stats.cacheHits!++;
+      return running;
+    }
+
+    stats.cacheMisses!++;
+    const evaluation = Promise.resolve(signal ? f(x, signal) : f(x));
+    pending.set(key, evaluation);
+    try {
+      const fx = await evaluation;
+      store(key, x, fx);
+      return fx;
+    } finally {
+      pending.delete(key);
+    }
+  };
+
+  // Only the points that are neither cached nor being evaluated are passed on
+  // to the batched objective, each once. Their evaluation is pending for
+  // concurrent requests as well:
+  const batch =
+    (fBatch: BatchObjective<T>): BatchObjective<T> =>
+    async (xs, signal) => {
+      const keys = xs.map(keyOf);
+      const fxs: (number | Promise<number>)[] = [];
+      const missing = new Map<string, number>();
+      const points: T[] = [];
+      keys.forEach((key, i) => {
+        const entry = lookup(key);
+        const running = pending.get(key);
+        if (entry) {
+          stats.cacheHits!++;
+          fxs[i] = entry[1];
+        } else if (running) {
+          stats.cacheHits!++;
+          fxs[i] = running;
+        } else if (missing.has(key)) {
+          stats.cacheHits!++;
+        } else {
+          stats.cacheMisses!++;
+          missing.set(key, points.length);
+          points.push(xs[i]);
+        }
+      });
+
+      if (points.length > 0) {
+        const evaluation = (async () => {
+          const values = await (signal
+            ? fBatch(points, signal)
+            : fBatch(points));
+          checkBatchSize(points, values);
+          return values;
+        })();
+        const missingKeys = [...missing.keys()];
+        missingKeys.forEach((key, j) => {
+          const value = evaluation.then((values) => values[j]);
+          // Failures are reported to the caller of the batch:
+          value.catch(() => undefined);
+          pending.set(key, value);
+        });
+        try {
+          const values = await evaluation;
+          missingKeys.forEach((key, j) => store(key, points[j], values[j]));
+          keys.forEach((key, i) => {
+            const j = missing.get(key);
+            if (j !== undefined) fxs[i] = values[j];
+          });
+        } finally {
+          missingKeys.forEach((key) => pending.delete(key));
+        }
+      }
+      return Promise.all(fxs);
+    };
+
+  const entries = () =>
+    [...cache.values()].map(([x, fx]) => [copy(x), fx] as [T, number]);
+
+  return Object.assign(memoized, { batch, entries, status: stats });
+};
@@ -0,0 +1,57 @@
+import {
+  GoldenSectionMinimizeStatus,
+  NelderMeadStatus,
+  PowellStatus,
+  StopReason,
+  minimize,
+} from "./index";
+
+describe("minimize", () => {
+  const f1 = (x: number) => (x - 2) ** 2;
+  const f2 = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 1) ** 2;
+
+  test("uses a golden section search for numbers", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const x = await minimize(f1, 0, {}, status);
+    expect(x).toBeCloseTo(2, 6);
+    expect(status.reason).toEqual(StopReason.Tolerance);
+  });
+
+  test("starts the 1D search at the initial guess", async () => {
+    const evaluated: number[] = [];
+    await minimize(
+      (x) => {
+        evaluated.push(x);
+        return f1(x);
+      },
+      5,
+      { method: "brent" },
+    );
+    expect(evaluated[0]).toEqual(5);
+  });
+
+  test("uses Powell's method for vectors", async () => {
+    const status: PowellStatus = { points: [] };
+    const x = await minimize(f2, [0, 0], {}, status);
+    expect(x![0]).toBeCloseTo(2, 6);
+    expect(x![1]).toBeCloseTo(-1, 6);
+    expect(status.points.length).toBeGreaterThan(0);
+  });
+
+  test("uses the given method", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    const x = await minimize(f2, [0, 0], { method: "nelderMead" }, status);
+    expect(x![0]).toBeCloseTo(2, 3);
+    expect(x![1]).toBeCloseTo(-1, 3);
+    expect(status.simplices.length).toBeGreaterThan(0);
+  });
+
+  test("rejects methods that don't match the input", async () => {
+    await expect(
+      minimize(f1, 0, { method: "powell" } as never),
+    ).rejects.toThrow("Method powell can't minimize a 1D objective");
+    await expect(
+      minimize(f2, [0, 0], { method: "brent" } as never),
+    ).rejects.toThrow("Method brent can't minimize a 2-dimensional objective");
+  });
+});
@@ -0,0 +1,86 @@
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { minimizeBrent1D } from "./minimizeBrent1D";
+import {
+  GoldenSectionMinimizeOptions,
+  minimizeGoldenSection1D,
+} from "./minimizeGoldenSection1D";
+import {
+  NelderMeadOptions,
+  NelderMeadStatus,
+  minimizeNelderMead,
+} from "./minimizeNelderMead";
+import { PowellOptions, PowellStatus, minimizePowell } from "./minimizePowell";
+import { Objective } from "./objective";
+
+export type Method1D = "goldenSection" | "brent";
+export type MethodND = "powell" | "nelderMead";
+
+export interface Minimize1DOptions extends GoldenSectionMinimizeOptions {
+  method?: Method1D;
+}
+
+export type MinimizeNDOptions<T extends number[] = number[]> =
+  | (PowellOptions<T> & { method?: "powell" })
+  | (NelderMeadOptions<T> & { method: "nelderMead" });
+
+const methods1D: string[] = ["goldenSection", "brent"] satisfies Method1D[];
+
+// Minimizes with the given method, similar to SciPy's `minimize`. A number
+// as initial guess selects a 1D minimizer (golden section search by default),
+// and a vector an N-D minimizer (Powell's method by default).
+export function minimize(
+  f: Objective<number>,
+  x0: number,
+  options?: Minimize1DOptions,
+  status?: GoldenSectionMinimizeStatus,
+): Promise<number | undefined>;
+export function minimize<T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: MinimizeNDOptions<T>,
+  status?: PowellStatus | NelderMeadStatus,
+): Promise<T | undefined>;
+export async function minimize<T extends number[]>(
+  f: Objective<number> | Objective<T>,
+  x0: number | T,
+  options?: Minimize1DOptions | MinimizeNDOptions<T>,
+  status?: GoldenSectionMinimizeStatus | PowellStatus | NelderMeadStatus,
+): Promise<number | T | undefined> {
+  const method = options?.method;
+
+  if (typeof x0 === "number") {
+    if (method !== undefined && !methods1D.includes(method)) {
+      throw new Error(`Method ${method} can't minimize a 1D objective`);
+    }
+    const options1D = options as Minimize1DOptions | undefined;
+    return (method === "brent" ? minimizeBrent1D : minimizeGoldenSection1D)(
+      f as Objective<number>,
+      { ...options1D, guess: options1D?.guess ?? x0 },
+      status as GoldenSectionMinimizeStatus | undefined,
+    );
+  }
+
+  switch (method) {
+    case undefined:
+    case "powell":
+      return minimizePowell(
+        f as Objective<T>,
+        x0,
+        options as PowellOptions<T> | undefined,
+        status as PowellStatus | undefined,
+      );
+    case "nelderMead":
+      return minimizeNelderMead(
+        f as Objective<T>,
+        x0,
+        options as NelderMeadOptions<T>,
+        status as NelderMeadStatus | undefined,
+      );
+    default:
+      throw new Error(
+        methods1D.includes(method)
+          ? `Method ${method} can't minimize a ${x0.length}-dimensional objective`
+          : `Unknown method ${method as string}`,
+      );
+  }
+}
@@ -0,0 +1,202 @@
+import { BatchObjective } from "./batchEvaluator";
+import { bracketMinimum } from "./bracket-minimum";
+import { BrentState } from "./brentMinimize";
+import { BudgetOptions, reportBudget } from "./budget";
+import { CheckpointOptions } from "./checkpoint";
+import {
+  GoldenSectionMinimizeStatus,
+  GoldenSectionState,
+} from "./goldenSectionMinimize";
+import { GoldenSectionMinimizeOptions } from "./minimizeGoldenSection1D";
+import { Objective, wrapObjective } from "./objective";
+import { StopReason } from "./optimizationStatus";
+import { Sampler } from "./noise";
+import { IterationCallback } from "./progress";
+import { maximizing } from "./sense";
+
+// The state of a 1D search after bracketing, together with the cached
+// evaluations if the objective is memoized:
+export type Minimizer1DState = (GoldenSectionState | BrentState) & {
+  evaluations?: [number, number][];
+};
+
+// A 1D minimizer that searches a finite interval, such as
+// `goldenSectionMinimize`:
+export type BracketedMinimizer = (
+  f: Objective<number>,
+  xL: number,
+  xU: number,
+  tol: number,
+  maxIterations: number,
+  status?: GoldenSectionMinimizeStatus,
+  signal?: AbortSignal,
+  parallel?: boolean | BatchObjective<number>,
+  onIteration?: IterationCallback<number>,
+  checkpoint?: CheckpointOptions<Minimizer1DState>,
+  budget?: BudgetOptions,
+  sampler?: Sampler,
+) => Promise<number | undefined>;
+
+// A 1D minimizer such as `minimizeGoldenSection1D` or `minimizeBrent1D`, which
+// can also be used as the line search of `minimizePowell`:
+export type Minimizer1D = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) => Promise<number | undefined>;
+
+// Brackets a minimum if the bounds are not finite and then searches the
+// bracket with the given minimizer. A resumed search continues in the bracket
+// of its state:
+export const minimize1D = async (
+  minimizer: BracketedMinimizer,
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+): Promise<number | undefined> => {
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimize1D(minimizer, f, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  options = options ?? {};
+  let x0;
+  const tolerance = options.tolerance === undefined ? 1e-8 : options.tolerance;
+  const dx =
+    options.initialIncrement === undefined ? 1 : options.initialIncrement;
+  const xMin =
+    options.lowerBound === undefined ? -Infinity : options.lowerBound;
+  const xMax = options.upperBound === undefined ? Infinity : options.upperBound;
+  const maxIterations =
+    options.maxIterations === undefined ? 100 : options.maxIterations;
+  const bounds: [number, number] = [0, 0];
+  const resume = options.resume;
+  const onCheckpoint = options.onCheckpoint;
+
+  const objective = wrapObjective(f, options, status, resume?.evaluations);
+  f = objective.f;
+  const { fBatch, parallel, signal } = objective;
+
+  // Keep track of the best point seen so that it can be returned if the
+  // search is aborted, even if it was found while bracketing:
+  let xBest: number | undefined;
+  let fBest = Infinity;
+  const track = (x: number, fx: number) => {
+    if (fx < fBest) {
+      xBest = x;
+      fBest = fx;
+    }
+  };
+  const evaluate = f;
+  f = async (x, signal) => {
+    const fx = await evaluate(x, signal);
+    track(x, fx);
+    return fx;
+  };
+  const trackBatch =
+    (fBatch: BatchObjective<number>): BatchObjective<number> =>
+    async (xs, signal) => {
+      const fxs = await fBatch(xs, signal);
+      xs.forEach((x, i) => track(x, fxs[i]));
+      return fxs;
+    };
+  const trackedParallel = fBatch ? trackBatch(fBatch) : parallel;
+
+  const stopAborted = () => {
+    if (status) {
+      status.argmin = xBest ?? NaN;
+      status.minimum = fBest;
+      status.converged = false;
+      status.aborted = true;
+      status.x = xBest ?? NaN;
+      status.fx = fBest;
+      status.reason = StopReason.Aborted;
+    }
+    return xBest;
+  };
+
+  try {
+    if (status) {
+      status.iterations = 0;
+      status.argmin = NaN;
+      status.minimum = Infinity;
+      status.converged = false;
+      status.aborted = false;
+      status.x = NaN;
+      status.fx = Infinity;
+      status.reason = undefined;
+    }
+
+    if (resume) {
+      bounds[0] = resume.lowerBound;
+      bounds[1] = resume.upperBound;
+    } else if (isFinite(xMax) && isFinite(xMin)) {
+      bounds[0] = xMin;
+      bounds[1] = xMax;
+    } else {
+      // Construct the best guess we can:
+      if (options.guess === undefined) {
+        if (xMin > -Infinity) {
+          x0 = xMax < Infinity ? 0.5 * (xMin + xMax) : xMin;
+        } else {
+          x0 = xMax < Infinity ? xMax : 0;
+        }
+      } else {
+        x0 = options.guess;
+      }
+
+      await bracketMinimum(
+        bounds,
+        f,
+        x0,
+        dx,
+        xMin,
+        xMax,
+        signal,
+        trackedParallel,
+      );
+
+      if (signal?.aborted) {
+        return stopAborted();
+      }
+
+      if (isNaN(bounds[0]) || isNaN(bounds[1])) {
+        if (status) status.reason = StopReason.NaN;
+        return undefined;
+      }
+    }
+
+    const searchStatus: GoldenSectionMinimizeStatus = status ?? {};
+    const x = await minimizer(
+      f,
+      bounds[0],
+      bounds[1],
+      tolerance,
+      maxIterations,
+      searchStatus,
+      signal,
+      trackedParallel,
+      options.onIteration,
+      {
+        resume,
+        onCheckpoint:
+          onCheckpoint &&
+          ((state) =>
+            onCheckpoint({ ...state, evaluations: objective.entries?.() })),
+      },
+      undefined,
+      objective.sampler,
+    );
+
+    // The bracketing may have found a better point than the interrupted
+    // search:
+    return signal?.aborted && fBest < searchStatus.fx! ? stopAborted() : x;
+  } finally {
+    objective.dispose();
+    reportBudget(status, objective.stopReason());
+  }
+};
@@ -0,0 +1,133 @@
+import {
+  BOBYQAStatus,
+  bobyqaSteps,
+  maximizeBOBYQA,
+  minimizeBOBYQA,
+} from "./minimizeBOBYQA";
+import { PowellStatus, minimizePowell } from "./minimizePowell";
+import { StopReason } from "./optimizationStatus";
+import { assertVectorAlmostEqual } from "./testUtils";
+
+const rosenbrock = (x: number[]) => {
+  let sum = 0;
+  for (let i = 0; i + 1 < x.length; i++) {
+    sum += 100 * (x[i + 1] - x[i] * x[i]) ** 2 + (1 - x[i]) ** 2;
+  }
+  return sum;
+};
+
+// A smooth function with a non-diagonal Hessian and its minimum at
+// [1, 2, 3, 4, 5]:
+const coupled = (x: number[]) => {
+  const d = x.map((xi, i) => xi - i - 1);
+  return d.reduce(
+    (sum, di, i) =>
+      sum + (i + 1) * di * di + di * d[(i + 1) % d.length] + 0.1 * di ** 4,
+    0,
+  );
+};
+
+describe("minimizeBOBYQA", () => {
+  test("minimizes the Rosenbrock function", async () => {
+    const status: BOBYQAStatus = {};
+    const x = await minimizeBOBYQA(rosenbrock, [-1.2, 1], {}, status);
+    assertVectorAlmostEqual(x, [1, 1], 1e-5);
+    expect(status.converged).toBe(true);
+    expect(status.reason).toBe(StopReason.Tolerance);
+    expect(status.points).toHaveLength(5);
+    expect(status.radius).toBe(1e-8);
+  });
+
+  test("needs fewer evaluations than minimizePowell", async () => {
+    const status: BOBYQAStatus = {};
+    const powell: PowellStatus = { points: [] };
+    const x = await minimizeBOBYQA(coupled, [0, 0, 0, 0, 0], {}, status);
+    await minimizePowell(coupled, [0, 0, 0, 0, 0], {}, powell);
+    assertVectorAlmostEqual(x, [1, 2, 3, 4, 5], 1e-5);
+    expect(status.evaluations).toBeLessThan(powell.evaluations! / 10);
+  });
+
+  test("builds full quadratic models", async () => {
+    const status: BOBYQAStatus = {};
+    const x = await minimizeBOBYQA(
+      (x) => (x[0] - 1) ** 2 + 2 * (x[1] + 1) ** 2 + x[0] * x[1],
+      [0, 0],
+      { interpolationPoints: 6 },
+      status,
+    );
+    assertVectorAlmostEqual(x, [12 / 7, -10 / 7], 1e-5);
+    expect(status.points).toHaveLength(6);
+  });
+
+  test("respects bounds", async () => {
+    const points: number[][] = [];
+    const x = await minimizeBOBYQA(
+      (x) => {
+        points.push(x.slice());
+        return rosenbrock(x);
+      },
+      [0.5, 0.5],
+      {
+        bounds: [
+          [-2, 0.8],
+          [0, 2],
+        ],
+      },
+    );
+    assertVectorAlmostEqual(x, [0.8, 0.64], 1e-5);
+    for (const p of points) {
+      expect(p[0]).toBeGreaterThanOrEqual(-2);
+      expect(p[0]).toBeLessThanOrEqual(0.8);
+      expect(p[1]).toBeGreaterThanOrEqual(0);
+      expect(p[1]).toBeLessThanOrEqual(2);
+    }
+  });
+
+  test("starts at a bound", async () => {
+    const x = await minimizeBOBYQA(
+      (x) => (x[0] - 2) ** 2 + (x[1] - 0.5) ** 2,
+      [1, 0],
+      {
+        bounds: [
+          [0, 1],
+          [0, 1],
+        ],
+      },
+    );
+    assertVectorAlmostEqual(x, [1, 0.5]);
+  });
+
+  test("maximizes", async () => {
+    const status: BOBYQAStatus = {};
+    const x = await maximizeBOBYQA((x) => -rosenbrock(x), [0, 0], {}, status);
+    assertVectorAlmostEqual(x, [1, 1], 1e-5);
+    expect(status.fx).toBeCloseTo(0, 8);
+    expect(Math.max(...status.values!)).toBe(status.fx);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: BOBYQAStatus = {};
+    const x = await minimizeBOBYQA(
+      rosenbrock,
+      [-1.2, 1],
+      { maxEvaluations: 20 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(20);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of bobyqaSteps(rosenbrock, [-1.2, 1], {
+      maxIter: 10,
+    })) {
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(10);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].fx).toBeLessThanOrEqual(steps[i - 1].fx);
+    }
+  });
+});
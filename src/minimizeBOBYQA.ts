@@ -0,0 +1,472 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds, constrain } from "./bounds";
+import { dot, multiplyVector, norm, solveLinear } from "./linearAlgebra";
+import { MemoizeStatus } from "./memoize";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export interface BOBYQAOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  bounds?: Bounds;
+  // The initial trust region radius, which is also the distance of the
+  // initial interpolation points from x0. It is at most half of the smallest
+  // finite bound range, and defaults to 10% of it, or to 10% of the largest
+  // coordinate of x0 but at least 0.1 without finite bounds.
+  initialStep?: number;
+  // Converges when the trust region radius falls below this tolerance:
+  xTolerance?: number;
+  // Number of interpolation points of the quadratic model, between n + 2 and
+  // (n + 1)(n + 2) / 2. Defaults to 2n + 1.
+  interpolationPoints?: number;
+  // Maximum number of trust region and model improvement steps:
+  maxIter?: number;
+}
+
+export interface BOBYQAStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  // The interpolation points of the last model and their values:
+  points?: number[][];
+  values?: number[];
+  // The lower limit of the trust region radius, which only decreases:
+  radius?: number;
+}
+
+// Minimizes the quadratic model g^T s + s^T H s / 2 within the trust region
+// |s| <= delta and the bounds lower <= s <= upper, which contain 0, by
+// conjugate gradients. Variables that hit their bounds are fixed and the
+// conjugate gradients are restarted for the remaining ones (Powell, 2009).
+const trustRegionStep = (
+  g: number[],
+  H: number[][],
+  delta: number,
+  lower: number[],
+  upper: number[],
+) => {
+  const n = g.length;
+  const s = new Array<number>(n).fill(0);
+  // Variables at a bound which the gradient points out of are fixed:
+  const fixed = g.map(
+    (gi, i) => (lower[i] >= 0 && gi > 0) || (upper[i] <= 0 && gi < 0),
+  );
+
+  for (let restart = 0; restart <= n; restart++) {
+    const Hs = multiplyVector(H, s);
+    let r = g.map((gi, i) => (fixed[i] ? 0 : -(gi + Hs[i])));
+    let d = r.slice();
+    let hitBound = false;
+
+    for (let k = 0; k < n && norm(r) > 1e-12 * (1 + norm(g)); k++) {
+      const Hd = multiplyVector(H, d);
+      const curvature = dot(d, Hd);
+      const rr = dot(r, r);
+
+      // The steps to the boundary of the trust region and to the bounds:
+      const ss = dot(s, s);
+      const sd = dot(s, d);
+      const dd = dot(d, d);
+      const toSphere =
+        (Math.sqrt(Math.max(sd * sd + dd * (delta * delta - ss), 0)) - sd) / dd;
+      let toBound = Infinity;
+      let blocking = -1;
+      d.forEach((di, i) => {
+        const t =
+          di > 0
+            ? (upper[i] - s[i]) / di
+            : di < 0
+            ? (lower[i] - s[i]) / di
+            : Infinity;
+        if (t < toBound) {
+          toBound = Math.max(t, 0);
+          blocking = i;
+        }
+      });
+      const alpha = Math.min(
+        curvature > 0 ? rr / curvature : Infinity,
+        toSphere,
+        toBound,
+      );
+      d.forEach((di, i) => (s[i] += alpha * di));
+
+      if (alpha === toSphere) return s;
+      if (alpha === toBound) {
+        s[blocking] = d[blocking] > 0 ? upper[blocking] : lower[blocking];
+        fixed[blocking] = true;
+        hitBound = true;
+        break;
+      }
+      r = r.map((ri, i) => (fixed[i] ? 0 : ri - alpha * Hd[i]));
+      const beta = dot(r, r) / rr;
+      d = r.map((ri, i) => ri + beta * d[i]);
+    }
+    if (!hitBound) break;
+  }
+  return s;
+};
+
+// Minimizes f within bounds without derivatives by a trust region method in
+// the spirit of Powell's BOBYQA: every step minimizes a quadratic model
+// within the trust region, which interpolates f at a set of points with the
+// least Frobenius norm of its Hessian. Every evaluated point replaces the
+// interpolation point whose removal keeps the set best poised, and distant
+// points are replaced to improve the model when its steps fail.
+export const minimizeBOBYQA = async <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: BOBYQAOptions<T>,
+  status?: BOBYQAStatus,
+): Promise<T | undefined> => {
+  if (options?.sense === "max") {
+    const x = await maximizing(
+      (f, options) => minimizeBOBYQA(f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+    if (status) status.values = status.values?.map((v) => -v);
+    return x;
+  }
+
+  const n = x0.length;
+  const bounds = options?.bounds ?? [];
+  const lower = x0.map((_, i) => bounds[i]?.[0] ?? -Infinity);
+  const upper = x0.map((_, i) => bounds[i]?.[1] ?? Infinity);
+  const widths = x0.map((_, i) => upper[i] - lower[i]).filter(isFinite);
+  const rhoBegin = Math.min(
+    options?.initialStep ??
+      (widths.length > 0
+        ? 0.1 * Math.min(...widths)
+        : Math.max(0.1 * Math.max(...x0.map(Math.abs)), 0.1)),
+    0.5 * Math.min(...widths),
+  );
+  const xTol = options?.xTolerance ?? 1e-8;
+  const m = Math.min(
+    Math.max(options?.interpolationPoints ?? 2 * n + 1, n + 2),
+    ((n + 1) * (n + 2)) / 2,
+  );
+  const maxIter = options?.maxIter ?? 1000 * Math.max(n, 1);
+
+  if (status) status.aborted = false;
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const evaluateAll = batchEvaluator(evaluate, objective.parallel, signal);
+
+  let rho = rhoBegin;
+  let delta = rho;
+  let points: T[] = [];
+  let values: number[] = [];
+  let hessian = x0.map(() => x0.map(() => 0));
+  // The index of the best interpolation point:
+  let k = 0;
+  let iter = 0;
+
+  const stop = (reason: StopReason) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    const x = values.length > 0 && !isNaN(values[k]) ? points[k] : undefined;
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? values[k] : NaN;
+      status.points = points.map((p) => p.slice());
+      status.values = values.slice();
+      status.radius = rho;
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x?.slice() as T | undefined;
+  };
+
+  // The initial points are x0 and steps of rho along every coordinate in
+  // both directions, or twice as far in one direction at a bound, followed
+  // by steps along pairs of coordinates:
+  const initialPoints = () => {
+    const x = constrain(x0.slice(), bounds) as T;
+    const first = x.map((xi, i) => (xi + rho <= upper[i] ? rho : -rho));
+    const second = x.map((xi, i) =>
+      first[i] < 0 ? -2 * rho : xi - rho >= lower[i] ? -rho : 2 * rho,
+    );
+    const result: T[] = [x];
+    const along = (steps: [number, number][]) => {
+      const p = x.slice() as T;
+      for (const [i, step] of steps) {
+        p[i] = Math.min(Math.max(p[i] + step, lower[i]), upper[i]);
+      }
+      result.push(p);
+    };
+    for (let i = 0; i < n && result.length < m; i++) along([[i, first[i]]]);
+    for (let i = 0; i < n && result.length < m; i++) along([[i, second[i]]]);
+    for (let i = 0; i < n && result.length < m; i++) {
+      for (let j = i + 1; j < n && result.length < m; j++) {
+        along([
+          [i, first[i]],
+          [j, first[j]],
+        ]);
+      }
+    }
+    return result;
+  };
+
+  // The quadratic model around the best point, whose Hessian changes least
+  // in the Frobenius norm among all interpolating models (Powell, 2004). The
+  // steps are scaled by the distance of the farthest point to keep the system
+  // well conditioned:
+  const buildModel = () => {
+    const xk = points[k];
+    const scale = Math.max(
+      ...points.map((y) => norm(y.map((yi, i) => yi - xk[i]))),
+    );
+    const steps = points.map((y) => y.map((yi, i) => (yi - xk[i]) / scale));
+    const size = m + n + 1;
+    const W = Array.from({ length: size }, () =>
+      new Array<number>(size).fill(0),
+    );
+    steps.forEach((si, i) => {
+      steps.forEach((sj, j) => (W[i][j] = 0.5 * dot(si, sj) ** 2));
+      W[i][m] = W[m][i] = 1;
+      si.forEach((sid, d) => (W[i][m + 1 + d] = W[m + 1 + d][i] = sid));
+    });
+    const system = (s: number[]) => [
+      ...steps.map((sj) => 0.5 * dot(s, sj) ** 2),
+      1,
+      ...s,
+    ];
+
+    // The change of the Hessian interpolates what the previous one doesn't:
+    const solution = solveLinear(W, [
+      ...values.map(
+        (v, j) =>
+          v -
+          values[k] -
+          0.5 *
+            dot(steps[j], multiplyVector(hessian, steps[j])) *
+            scale *
+            scale,
+      ),
+      ...new Array<number>(n + 1).fill(0),
+    ]);
+    if (!solution || !solution.every(isFinite)) return undefined;
+    const lambdas = solution.slice(0, m);
+    const g = solution.slice(m + 1).map((gi) => gi / scale);
+    const H = hessian.map((row, a) =>
+      row.map(
+        (hab, b) =>
+          hab +
+          lambdas.reduce(
+            (sum, l, j) => sum + l * steps[j][a] * steps[j][b],
+            0,
+          ) /
+            (scale * scale),
+      ),
+    );
+    hessian = H;
+    return {
+      g,
+      H,
+      // The values of the Lagrange functions of the interpolation points at
+      // x, which measure how well poised the set is with x instead of them:
+      lagrange: (x: number[]) =>
+        solveLinear(W, system(x.map((xi, i) => (xi - xk[i]) / scale)))?.slice(
+          0,
+          m,
+        ),
+    };
+  };
+
+  const replace = (j: number, x: T, fx: number) => {
+    points[j] = x;
+    values[j] = fx;
+    if (fx < values[k]) k = j;
+  };
+
+  // Replaces the point farthest from the best one, if it is farther than
+  // `distance`, by a point within rho of the best one where its Lagrange
+  // function is largest. Returns whether a point was replaced:
+  const improveGeometry = async (
+    model: NonNullable<ReturnType<typeof buildModel>>,
+    distance: number,
+  ) => {
+    const xk = points[k];
+    const distances = points.map((y) => norm(y.map((yi, i) => yi - xk[i])));
+    let j = -1;
+    distances.forEach((dj, i) => {
+      if (dj > distance && (j < 0 || dj > distances[j])) j = i;
+    });
+    if (j < 0) return false;
+
+    const direction = points[j].map((yi, i) => (yi - xk[i]) / distances[j]);
+    const candidates = [
+      direction,
+      ...xk.map((_, i) => xk.map((_, l): number => (l === i ? 1 : 0))),
+    ]
+      .flatMap((d) => [d, d.map((di) => -di)])
+      .map(
+        (d) =>
+          constrain(
+            xk.map((xi, i) => xi + rho * d[i]),
+            bounds,
+          ) as T,
+      )
+      .filter((c) => c.some((ci, i) => ci !== xk[i]));
+    let best: T | undefined;
+    let bestValue = -1;
+    for (const c of candidates) {
+      const value = Math.abs(model.lagrange(c)?.[j] ?? 0);
+      if (value > bestValue) {
+        best = c;
+        bestValue = value;
+      }
+    }
+    if (!best) return false;
+    const fx = await evaluate(best);
+    if (isNaN(fx)) return false;
+    replace(j, best, fx);
+    return true;
+  };
+
+  // Decreases the lower limit of the trust region radius, faster while it is
+  // far from the tolerance (Powell, 2009):
+  const reduceRadius = () => {
+    const previous = rho;
+    const ratio = rho / xTol;
+    rho = ratio <= 16 ? xTol : ratio <= 250 ? Math.sqrt(rho * xTol) : 0.1 * rho;
+    delta = Math.max(0.5 * previous, rho);
+  };
+
+  try {
+    points = initialPoints();
+    values = await evaluateAll(points);
+    if (values.some(isNaN)) {
+      values.forEach((v, j) => {
+        if (!isNaN(v) && (isNaN(values[k]) || v < values[k])) k = j;
+      });
+      return stop(StopReason.NaN);
+    }
+    values.forEach((v, j) => {
+      if (v < values[k]) k = j;
+    });
+
+    for (;;) {
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations);
+      }
+      ++iter;
+
+      const model = buildModel();
+      if (!model) {
+        return stop(StopReason.NoMovement);
+      }
+      const xk = points[k];
+      const s = trustRegionStep(
+        model.g,
+        model.H,
+        delta,
+        xk.map((xi, i) => lower[i] - xi),
+        xk.map((xi, i) => upper[i] - xi),
+      );
+      const stepSize = norm(s);
+
+      if (stepSize < 0.5 * rho) {
+        // The model doesn't promise enough progress. Its geometry is
+        // improved, or the radius decreased if the points are close enough:
+        if (!(await improveGeometry(model, 2 * delta))) {
+          if (rho <= xTol) {
+            return stop(StopReason.Tolerance);
+          }
+          reduceRadius();
+        }
+      } else {
+        const x = constrain(
+          xk.map((xi, i) => xi + s[i]),
+          bounds,
+        ) as T;
+        const fx = await evaluate(x);
+        const predicted = -(
+          dot(model.g, s) +
+          0.5 * dot(s, multiplyVector(model.H, s))
+        );
+        const ratio = isNaN(fx) ? -Infinity : (values[k] - fx) / predicted;
+
+        if (ratio <= 0.1) {
+          delta = Math.min(0.5 * delta, stepSize);
+        } else if (ratio <= 0.7) {
+          delta = Math.max(0.5 * delta, stepSize);
+        } else {
+          delta = Math.max(0.5 * delta, 2 * stepSize);
+        }
+        if (delta <= 1.5 * rho) delta = rho;
+
+        if (!isNaN(fx)) {
+          // The replaced point is the one with the largest Lagrange function
+          // at x, weighted by its distance from the best point. The best
+          // point is only replaced by a better one:
+          const lagrange = model.lagrange(x) ?? [];
+          let t = -1;
+          let weight = -1;
+          points.forEach((y, j) => {
+            if (j === k && fx >= values[k]) return;
+            const distance = norm(y.map((yi, i) => yi - xk[i]));
+            const w =
+              Math.abs(lagrange[j] ?? 0) * Math.max(1, (distance / delta) ** 2);
+            if (w > weight) {
+              t = j;
+              weight = w;
+            }
+          });
+          replace(t, x, fx);
+        }
+
+        if (ratio < 0.1 && !(await improveGeometry(model, 2 * delta))) {
+          if (delta <= rho) {
+            if (rho <= xTol) {
+              return stop(StopReason.Tolerance);
+            }
+            reduceRadius();
+          }
+        }
+      }
+
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: points[k].slice() as T,
+          fx: values[k],
+          iteration: iter,
+          stepSize,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback);
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeBOBYQA = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: BOBYQAOptions<T>,
+  status?: BOBYQAStatus,
+) => minimizeBOBYQA(f, x0, { ...options, sense: "max" }, status);
+
+export const bobyqaSteps = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: BOBYQAOptions<T>,
+  status?: BOBYQAStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeBOBYQA(f, x0, { ...options, onIteration }, status),
+  );
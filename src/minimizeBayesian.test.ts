@@ -0,0 +1,184 @@
+import { gaussianProcess } from "./gaussianProcess";
+import {
+  BayesianStatus,
+  bayesianSteps,
+  maximizeBayesian,
+  minimizeBayesian,
+} from "./minimizeBayesian";
+import { StopReason } from "./optimizationStatus";
+
+// Three global minima with the value 0.397887:
+const branin = ([x, y]: number[]) =>
+  (y - (5.1 / (4 * Math.PI ** 2)) * x * x + (5 / Math.PI) * x - 6) ** 2 +
+  10 * (1 - 1 / (8 * Math.PI)) * Math.cos(x) +
+  10;
+
+const braninBounds: [number, number][] = [
+  [-5, 10],
+  [0, 15],
+];
+
+const quadratic = ([x, y]: number[]) => (x - 0.3) ** 2 + (y + 0.2) ** 2;
+
+const bounds: [number, number][] = [
+  [-1, 1],
+  [-1, 1],
+];
+
+describe("gaussianProcess", () => {
+  test.each(["matern52", "rbf"] as const)(
+    "interpolates the data with the %s kernel",
+    (kernel) => {
+      const points = [[0], [0.3], [0.5], [1]];
+      const values = points.map(([x]) => Math.sin(6 * x));
+      const gp = gaussianProcess(kernel, points, values, {
+        lengthScales: [0.3],
+        amplitude: 1,
+        noise: 1e-10,
+      });
+      for (const [k, p] of points.entries()) {
+        expect(gp?.predict(p).mean).toBeCloseTo(values[k], 4);
+        expect(gp?.predict(p).variance).toBeLessThan(1e-6);
+      }
+      expect(gp?.predict([0.75]).variance).toBeGreaterThan(1e-3);
+    },
+  );
+});
+
+describe("minimizeBayesian", () => {
+  test("minimizes the Branin function with few evaluations", async () => {
+    const status: BayesianStatus = {};
+    await minimizeBayesian(
+      branin,
+      { bounds: braninBounds, seed: 1, maxIter: 30 },
+      status,
+    );
+    expect(status.fx).toBeLessThan(0.41);
+    expect(status.evaluations).toBe(35);
+    expect(status.points).toHaveLength(35);
+    expect(status.reason).toBe(StopReason.MaxIterations);
+  });
+
+  test.each([
+    ["matern52", "ucb"],
+    ["rbf", "ei"],
+  ] as const)(
+    "minimizes with the %s kernel and %s acquisition",
+    async (kernel, acquisition) => {
+      const status: BayesianStatus = {};
+      const x = await minimizeBayesian(
+        quadratic,
+        { bounds, seed: 2, kernel, acquisition, maxIter: 15 },
+        status,
+      );
+      expect(x?.[0]).toBeCloseTo(0.3, 1);
+      expect(x?.[1]).toBeCloseTo(-0.2, 1);
+      expect(status.lengthScales).toHaveLength(2);
+    },
+  );
+
+  test("proposes batches of points", async () => {
+    const batches: number[] = [];
+    const status: BayesianStatus = {};
+    await minimizeBayesian(
+      quadratic,
+      {
+        bounds,
+        seed: 3,
+        batchSize: 4,
+        maxIter: 5,
+        fBatch: (xs) => {
+          batches.push(xs.length);
+          return xs.map(quadratic);
+        },
+      },
+      status,
+    );
+    expect(batches).toEqual([5, 4, 4, 4, 4, 4]);
+    expect(status.fx).toBeLessThan(0.01);
+    // The points of a batch differ:
+    const last = status.points!.slice(-4).map((p) => JSON.stringify(p));
+    expect(new Set(last).size).toBe(4);
+  });
+
+  test("limits the number of concurrent evaluations", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await minimizeBayesian(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return quadratic(x);
+      },
+      { bounds, seed: 4, batchSize: 4, concurrency: 2, maxIter: 2 },
+    );
+    expect(maxRunning).toBe(2);
+  });
+
+  test("warm starts from evaluated points", async () => {
+    const warmStart = [
+      [0.3, -0.2],
+      [-0.5, 0.5],
+      [0.8, 0.8],
+    ].map((x) => [x, quadratic(x)] as [number[], number]);
+    const status: BayesianStatus = {};
+    const x = await minimizeBayesian(
+      quadratic,
+      { bounds, seed: 5, warmStart, initialPoints: 5, maxIter: 3 },
+      status,
+    );
+    expect(x).toEqual([0.3, -0.2]);
+    expect(status.fx).toBe(0);
+    expect(status.evaluations).toBe(5);
+    expect(status.points).toHaveLength(8);
+  });
+
+  test("maximizes", async () => {
+    const warmStart: [number[], number][] = [[[0, 0], -quadratic([0, 0])]];
+    const status: BayesianStatus = {};
+    const x = await maximizeBayesian(
+      (x) => -quadratic(x),
+      { bounds, seed: 6, warmStart, maxIter: 15 },
+      status,
+    );
+    expect(x?.[0]).toBeCloseTo(0.3, 1);
+    expect(x?.[1]).toBeCloseTo(-0.2, 1);
+    expect(status.fx).toBeLessThanOrEqual(0);
+    expect(status.fx).toBeGreaterThan(-0.01);
+    expect(status.values![0]).toBeCloseTo(-0.13);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: BayesianStatus = {};
+    const x = await minimizeBayesian(
+      quadratic,
+      { bounds, seed: 7, maxEvaluations: 8 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(8);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("requires finite bounds", async () => {
+    await expect(
+      minimizeBayesian(quadratic, { bounds: [[0, 1], null] }),
+    ).rejects.toThrow();
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of bayesianSteps(quadratic, {
+      bounds,
+      seed: 8,
+      maxIter: 4,
+    })) {
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(4);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].fx).toBeLessThanOrEqual(steps[i - 1].fx);
+    }
+  });
+});
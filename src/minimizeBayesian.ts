@@ -0,0 +1,326 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds } from "./bounds";
+import {
+  Hyperparameters,
+  Kernel,
+  fitGaussianProcess,
+  gaussianProcess,
+} from "./gaussianProcess";
+import { norm } from "./linearAlgebra";
+import { MemoizeStatus } from "./memoize";
+import { minimizeNelderMead } from "./minimizeNelderMead";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { randomGenerator } from "./random";
+import { SamplingMethod, samplePoints } from "./samplePoints";
+import { maximizing } from "./sense";
+
+export type Acquisition = "ei" | "ucb";
+
+export interface BayesianOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  // Finite bounds for every dimension, which contain all evaluated points:
+  bounds: Bounds;
+  // The covariance function of the surrogate. Defaults to "matern52".
+  kernel?: Kernel;
+  // Chooses the points with the largest expected improvement ("ei"), or with
+  // the lowest confidence bound ("ucb"). Defaults to "ei".
+  acquisition?: Acquisition;
+  // The number of standard deviations of the confidence bound. Defaults to 2.
+  explorationWeight?: number;
+  // Number of points proposed and evaluated together in every iteration.
+  // Defaults to 1.
+  batchSize?: number;
+  // Number of points sampled before the surrogate is used, including the warm
+  // start. Defaults to 2n + 1.
+  initialPoints?: number;
+  // How the initial points are sampled. Defaults to "latinHypercube".
+  init?: SamplingMethod;
+  // Previously evaluated points and their values, which the surrogate is
+  // fitted to from the start:
+  warmStart?: [T, number][];
+  // Fits the variance of observation noise as well, for noisy objectives:
+  noise?: boolean;
+  // Maximum number of iterations after the initial points:
+  maxIter?: number;
+  // Maximum number of evaluations running at the same time, or in the same
+  // batch. Defaults to all points of an iteration if `parallel` is set or
+  // `fBatch` is given, and to 1 otherwise.
+  concurrency?: number;
+  // Makes runs reproducible:
+  seed?: number;
+}
+
+export interface BayesianStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  // All evaluated points including the warm start, and their values:
+  points?: number[][];
+  values?: number[];
+  // The fitted length scales of the surrogate as fractions of the bounds:
+  lengthScales?: number[];
+}
+
+// Number of random candidates for maximizing the acquisition function, the
+// best few of which are refined locally:
+const CANDIDATES = 1000;
+const REFINED = 3;
+
+// The coefficients of the complementary error function (Press et al., 2007):
+const ERFC = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807,
+  -1.13520398, 1.48851587, -0.82215223, 0.17087277,
+];
+
+// The standard normal density and distribution:
+const normalPdf = (z: number) =>
+  Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc =
+    t * Math.exp(-x * x + ERFC.reduceRight((sum, c) => c + t * sum, 0));
+  return z >= 0 ? 1 - 0.5 * erfc : 0.5 * erfc;
+};
+
+// Minimizes expensive objectives within bounds by Bayesian optimization: a
+// Gaussian process surrogate is fitted to all evaluated points, and the next
+// points are chosen where the surrogate promises the most. Batches of points
+// are proposed by treating the predictions at the points chosen so far as
+// observed values (the kriging believer).
+export const minimizeBayesian = async <T extends number[]>(
+  f: Objective<T>,
+  options: BayesianOptions<T>,
+  status?: BayesianStatus,
+): Promise<T | undefined> => {
+  if (options.sense === "max") {
+    const x = await maximizing(
+      (f, options) => minimizeBayesian(f, options, status),
+      f,
+      {
+        ...options,
+        // The warm start has values of the original objective as well:
+        warmStart: options.warmStart?.map(([x, fx]) => [x, -fx] as [T, number]),
+      },
+      status,
+    );
+    if (status) status.values = status.values?.map((v) => -v);
+    return x;
+  }
+
+  const bounds = options.bounds.map((b) => {
+    if (!b || !isFinite(b[0]) || !isFinite(b[1])) {
+      throw new Error("Bayesian optimization requires finite bounds");
+    }
+    return b;
+  });
+  const n = bounds.length;
+  const kernel = options.kernel ?? "matern52";
+  const acquisition = options.acquisition ?? "ei";
+  const kappa = options.explorationWeight ?? 2;
+  const batchSize = Math.max(options.batchSize ?? 1, 1);
+  const maxIter = options.maxIter ?? 30;
+  const random = randomGenerator(options.seed);
+
+  if (status) status.aborted = false;
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const concurrency =
+    options.concurrency ?? (objective.parallel ? Infinity : 1);
+  const evaluateAll = batchEvaluator(
+    evaluate,
+    objective.parallel || concurrency > 1,
+    signal,
+    concurrency,
+  );
+
+  // The surrogate works in the unit cube:
+  const unitBounds = bounds.map((): [number, number] => [0, 1]);
+  const toUnit = (x: number[]) =>
+    x.map((xi, i) => (xi - bounds[i][0]) / (bounds[i][1] - bounds[i][0]));
+  const fromUnit = (u: number[]) =>
+    u.map(
+      (ui, i) =>
+        bounds[i][0] +
+        Math.min(Math.max(ui, 0), 1) * (bounds[i][1] - bounds[i][0]),
+    ) as T;
+
+  const points: T[] = (options.warmStart ?? []).map(([x]) => x.slice() as T);
+  const values = (options.warmStart ?? []).map(([, fx]) => fx);
+  let hyperparameters: Hyperparameters = {
+    lengthScales: bounds.map(() => 0.5),
+    amplitude: 1,
+    noise: 0,
+  };
+  let best = -1;
+  let iter = 0;
+
+  const add = (xs: T[], fxs: number[]) => {
+    xs.forEach((x, k) => {
+      points.push(x);
+      values.push(fxs[k]);
+      if (!isNaN(fxs[k]) && (best < 0 || fxs[k] < values[best])) {
+        best = values.length - 1;
+      }
+    });
+  };
+
+  const stop = (reason: StopReason) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    const x = best >= 0 ? points[best] : undefined;
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? values[best] : NaN;
+      status.points = points.map((p) => p.slice());
+      status.values = values.slice();
+      status.lengthScales = hyperparameters.lengthScales.slice();
+      status.iterations = iter;
+      status.converged = false;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x?.slice() as T | undefined;
+  };
+
+  // Proposes the next batch of points in the unit cube:
+  const propose = async () => {
+    const known = points
+      .map((x, k) => ({ u: toUnit(x), fx: values[k] }))
+      .filter(({ fx }) => isFinite(fx));
+    if (known.length === 0) {
+      return Array.from({ length: batchSize }, () =>
+        bounds.map(() => random()),
+      );
+    }
+
+    // The values are standardized for the surrogate:
+    const mean = known.reduce((sum, { fx }) => sum + fx, 0) / known.length;
+    const deviation =
+      Math.sqrt(
+        known.reduce((sum, { fx }) => sum + (fx - mean) ** 2, 0) / known.length,
+      ) || 1;
+    let us = known.map(({ u }) => u);
+    let ys = known.map(({ fx }) => (fx - mean) / deviation);
+    hyperparameters = await fitGaussianProcess(
+      kernel,
+      us,
+      ys,
+      hyperparameters,
+      options.noise ?? false,
+    );
+    const yBest = Math.min(...ys);
+
+    const proposals: number[][] = [];
+    while (proposals.length < batchSize) {
+      const gp = gaussianProcess(kernel, us, ys, hyperparameters);
+      if (!gp) {
+        proposals.push(bounds.map(() => random()));
+        continue;
+      }
+
+      // The negated acquisition function, which is minimized:
+      const score = (u: number[]) => {
+        const { mean, variance } = gp.predict(u);
+        const s = Math.sqrt(variance);
+        if (acquisition === "ucb") return mean - kappa * s;
+        const improvement = yBest - mean;
+        if (s === 0) return -Math.max(improvement, 0);
+        const z = improvement / s;
+        return -(improvement * normalCdf(z) + s * normalPdf(z));
+      };
+
+      const candidates = samplePoints("uniform", CANDIDATES, unitBounds, random)
+        .map((u) => ({ u, score: score(u) }))
+        .sort((a, b) => a.score - b.score)
+        .slice(0, REFINED);
+      let proposal = candidates[0];
+      for (const candidate of candidates) {
+        const u = await minimizeNelderMead(score, candidate.u, {
+          bounds: unitBounds,
+          initialStep: 0.05,
+          maxIter: 50 * n,
+        });
+        const s = u ? score(u) : NaN;
+        if (u && s < proposal.score) proposal = { u, score: s };
+      }
+      proposals.push(proposal.u);
+
+      // The kriging believer:
+      us = [...us, proposal.u];
+      ys = [...ys, gp.predict(proposal.u).mean];
+    }
+    return proposals;
+  };
+
+  try {
+    const initial = Math.max(
+      (options.initialPoints ?? 2 * n + 1) - points.length,
+      0,
+    );
+    points.forEach((_, k) => {
+      if (!isNaN(values[k]) && (best < 0 || values[k] < values[best])) best = k;
+    });
+    if (initial > 0) {
+      const xs = samplePoints(
+        options.init ?? "latinHypercube",
+        initial,
+        bounds,
+        random,
+      ) as T[];
+      add(xs, await evaluateAll(xs));
+    }
+
+    for (;;) {
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations);
+      }
+      ++iter;
+
+      const previous = best >= 0 ? points[best] : undefined;
+      const xs = (await propose()).map(fromUnit);
+      add(xs, await evaluateAll(xs));
+
+      if (
+        best >= 0 &&
+        options.onIteration &&
+        (await options.onIteration({
+          x: points[best].slice() as T,
+          fx: values[best],
+          iteration: iter,
+          stepSize: previous
+            ? norm(points[best].map((xi, i) => xi - previous[i]))
+            : 0,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback);
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeBayesian = <T extends number[]>(
+  f: Objective<T>,
+  options: BayesianOptions<T>,
+  status?: BayesianStatus,
+) => minimizeBayesian(f, { ...options, sense: "max" }, status);
+
+export const bayesianSteps = <T extends number[]>(
+  f: Objective<T>,
+  options: BayesianOptions<T>,
+  status?: BayesianStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeBayesian(f, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,216 @@
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { Minimizer1DState } from "./minimize1D";
+import {
+  brentSteps,
+  maximizeBrent1D,
+  minimizeBrent1D,
+} from "./minimizeBrent1D";
+import { minimizeGoldenSection1D } from "./minimizeGoldenSection1D";
+import { StopReason } from "./optimizationStatus";
+
+const assertAlmostEqual = (
+  computed: number | undefined,
+  expected: number,
+  tol?: number,
+) => {
+  expect(computed).toBeCloseTo(expected, -Math.log10(tol ?? 1e-6));
+};
+
+describe("minimizeBrent1D", () => {
+  test("Minimizes -1 / (x - 1) in [0, 2]", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    assertAlmostEqual(
+      await minimizeBrent1D(
+        (x) => -1 / (x - 1),
+        {
+          lowerBound: 0,
+          upperBound: 2,
+        },
+        status,
+      ),
+      1,
+    );
+    expect(status.converged).toBeTruthy();
+  });
+
+  test("Bails out on unbounded minimization of -x^2", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeBrent1D((x) => -x * x, undefined, status);
+    expect(status.converged).toBeFalsy();
+  });
+
+  test("Succeeds on bounded minimization of -x^2", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeBrent1D(
+      (x) => -x * x,
+      { lowerBound: -1, upperBound: 2 },
+      status,
+    );
+    assertAlmostEqual(answer, 2);
+    assertAlmostEqual(status.x, 2);
+    assertAlmostEqual(status.fx, -4);
+    expect(status.converged).toBeTruthy();
+  });
+
+  test("Minimizes sqrt(|x|) in (-inf, inf)", async () => {
+    assertAlmostEqual(await minimizeBrent1D((x) => Math.sqrt(Math.abs(x))), 0);
+  });
+
+  test("minimizes x(x-2) in (-inf, -6]", async () => {
+    assertAlmostEqual(
+      await minimizeBrent1D((x) => x * (x - 2), {
+        upperBound: -6,
+      }),
+      -6,
+    );
+  });
+
+  test("minimizes a cubic", async () => {
+    assertAlmostEqual(
+      await minimizeBrent1D((x) => x * (x - 2) * (x - 1), {
+        lowerBound: 0,
+        upperBound: 3,
+      }),
+      (3 + Math.sqrt(3)) / 3,
+    );
+  });
+
+  test("fails to minimize a cubic with no bounds", async () => {
+    expect(await minimizeBrent1D((x) => x * (x - 2) * (x - 1))).toBeUndefined();
+  });
+
+  test("minimizes cosine", async () => {
+    assertAlmostEqual(Math.cos((await minimizeBrent1D(Math.cos))!), -1);
+  });
+
+  test("minimizes cosine", async () => {
+    assertAlmostEqual(await minimizeBrent1D(Math.cos, { guess: -3 }), -Math.PI);
+  });
+
+  test("minimizes a cusp", async () => {
+    assertAlmostEqual(
+      await minimizeBrent1D((x) => Math.sqrt(Math.abs(x - 5))),
+      5,
+    );
+  });
+
+  test("needs fewer evaluations than golden section search on smooth objectives", async () => {
+    const f = (x: number) => Math.exp(x) - 2 * x;
+    const brentStatus: GoldenSectionMinimizeStatus = {};
+    const goldenStatus: GoldenSectionMinimizeStatus = {};
+    assertAlmostEqual(
+      await minimizeBrent1D(f, { lowerBound: -2, upperBound: 3 }, brentStatus),
+      Math.log(2),
+    );
+    await minimizeGoldenSection1D(
+      f,
+      { lowerBound: -2, upperBound: 3 },
+      goldenStatus,
+    );
+    expect(brentStatus.evaluations).toBeLessThan(goldenStatus.evaluations! / 2);
+  });
+
+  test("reports running out of iterations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeBrent1D(
+      (x) => Math.sqrt(Math.abs(x - 5)),
+      { lowerBound: 0, upperBound: 10, maxIterations: 5 },
+      status,
+    );
+    expect(status.iterations).toEqual(5);
+    expect(status.reason).toEqual(StopReason.MaxIterations);
+  });
+
+  test("stops evaluating once aborted", async () => {
+    const controller = new AbortController();
+    const status: GoldenSectionMinimizeStatus = {};
+    let evaluations = 0;
+    const answer = await minimizeBrent1D(
+      (x) => {
+        if (++evaluations === 5) controller.abort();
+        return Math.exp(x) - 2 * x;
+      },
+      { lowerBound: -2, upperBound: 3, signal: controller.signal },
+      status,
+    );
+    expect(evaluations).toEqual(5);
+    expect(status.reason).toEqual(StopReason.Aborted);
+    expect(answer).toEqual(status.x);
+  });
+
+  test("yields the iterations and returns the result", async () => {
+    const steps = brentSteps((x) => Math.exp(x) - 2 * x, {
+      lowerBound: -2,
+      upperBound: 3,
+    });
+    let iterations = 0;
+    let next;
+    while (!(next = await steps.next()).done) {
+      expect(next.value.iteration).toEqual(++iterations);
+    }
+    assertAlmostEqual(next.value, Math.log(2));
+  });
+
+  test("resumes from a checkpoint", async () => {
+    const f = (x: number) => Math.exp(x) - 2 * x;
+    const full: GoldenSectionMinimizeStatus = {};
+    const expected = await minimizeBrent1D(f, {}, full);
+
+    let state: Minimizer1DState | undefined;
+    await minimizeBrent1D(f, {
+      onCheckpoint: (s) => {
+        state = JSON.parse(JSON.stringify(s)) as Minimizer1DState;
+      },
+      onIteration: (step) => step.iteration === 3,
+    });
+    expect(state!.method).toEqual("brent");
+
+    const status: GoldenSectionMinimizeStatus = {};
+    const evaluations: number[] = [];
+    const result = await minimizeBrent1D(
+      (x) => {
+        evaluations.push(x);
+        return f(x);
+      },
+      { resume: state },
+      status,
+    );
+    expect(result).toEqual(expected);
+    expect(status.iterations).toEqual(full.iterations);
+    // One evaluation per remaining iteration, but none in the last one, which
+    // only checks for convergence:
+    expect(evaluations.length).toEqual(full.iterations! - 4);
+
+    await expect(minimizeGoldenSection1D(f, { resume: state })).rejects.toThrow(
+      "Can't resume a golden section search from a brent state",
+    );
+  });
+
+  test("maximizes", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await maximizeBrent1D((x) => Math.sin(x), {}, status);
+    assertAlmostEqual(Math.sin(answer!), 1);
+    assertAlmostEqual(status.fx, 1);
+  });
+});
+
+describe("Brent noisy objectives", () => {
+  test("resamples near convergence", async () => {
+    let state = 7;
+    const random = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648 - 0.5;
+    };
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeBrent1D(
+      (x) => (x - 1) ** 2 + 0.01 * random(),
+      { lowerBound: -3, upperBound: 3, samples: 2, maxSamples: 64 },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Noise);
+    expect(status.converged).toBeTruthy();
+    assertAlmostEqual(answer, 1, 0.1);
+    // The samples were increased along the way:
+    expect(status.evaluations).toBeGreaterThan(2 * status.iterations! + 6);
+  });
+});
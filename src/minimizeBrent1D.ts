@@ -0,0 +1,29 @@
+import { brentMinimize } from "./brentMinimize";
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { minimize1D } from "./minimize1D";
+import { GoldenSectionMinimizeOptions } from "./minimizeGoldenSection1D";
+import { Objective } from "./objective";
+import { iterate } from "./progress";
+
+// Same as `minimizeGoldenSection1D`, but searches the bracket with Brent's
+// method, which converges much faster on smooth objectives.
+export const minimizeBrent1D = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) => minimize1D(brentMinimize, f, options, status);
+
+export const maximizeBrent1D = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) => minimizeBrent1D(f, { ...options, sense: "max" }, status);
+
+export const brentSteps = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) =>
+  iterate<number, number | undefined>((onIteration) =>
+    minimizeBrent1D(f, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,182 @@
+import {
+  CMAESStatus,
+  cmaesSteps,
+  maximizeCMAES,
+  minimizeCMAES,
+} from "./minimizeCMAES";
+import { StopReason } from "./optimizationStatus";
+import { assertVectorAlmostEqual } from "./testUtils";
+
+const rosenbrock = (x: number[]) => {
+  let sum = 0;
+  for (let i = 0; i + 1 < x.length; i++) {
+    sum += 100 * (x[i + 1] - x[i] * x[i]) ** 2 + (1 - x[i]) ** 2;
+  }
+  return sum;
+};
+
+// A rotated ellipsoid with a condition number of 1e6:
+const ellipsoid = (x: number[]) => {
+  const n = x.length;
+  return x.reduce((sum, _, i) => {
+    const yi = x.slice(0, i + 1).reduce((s, xj) => s + xj, 0);
+    return sum + 1e6 ** (i / (n - 1)) * yi * yi;
+  }, 0);
+};
+
+// Many local minima, and the global minimum 0 at the origin:
+const rastrigin = (x: number[]) =>
+  10 * x.length +
+  x.reduce((sum, xi) => sum + xi * xi - 10 * Math.cos(2 * Math.PI * xi), 0);
+
+describe("minimizeCMAES", () => {
+  test("minimizes the Rosenbrock function", async () => {
+    const status: CMAESStatus = {};
+    const x = await minimizeCMAES(
+      rosenbrock,
+      [0, 0, 0, 0, 0],
+      { seed: 1, initialStep: 0.5 },
+      status,
+    );
+    assertVectorAlmostEqual(x, [1, 1, 1, 1, 1], 1e-4);
+    expect(status.converged).toBe(true);
+    expect(status.reason).toBe(StopReason.Tolerance);
+    expect(status.mean).toHaveLength(5);
+    expect(status.covariance).toHaveLength(5);
+    expect(status.stepSize).toBeLessThan(1e-3);
+    expect(status.populationSize).toBe(8);
+  });
+
+  test("adapts to ill-conditioned problems", async () => {
+    const x = await minimizeCMAES(ellipsoid, [1, 1, 1, 1, 1, 1], { seed: 2 });
+    assertVectorAlmostEqual(x, [0, 0, 0, 0, 0, 0], 1e-4);
+  });
+
+  test("is reproducible with a seed", async () => {
+    const a: CMAESStatus = {};
+    const b: CMAESStatus = {};
+    await minimizeCMAES(rosenbrock, [0, 0, 0], { seed: 3 }, a);
+    await minimizeCMAES(rosenbrock, [0, 0, 0], { seed: 3 }, b);
+    expect(a.x).toEqual(b.x);
+    expect(a.evaluations).toBe(b.evaluations);
+  });
+
+  test.each(["ipop", "bipop"] as const)(
+    "finds the global minimum with %s restarts",
+    async (restartStrategy) => {
+      const status: CMAESStatus = {};
+      const x = await minimizeCMAES(
+        rastrigin,
+        [3, 3, 3],
+        {
+          seed: 3,
+          bounds: [
+            [-5.12, 5.12],
+            [-5.12, 5.12],
+            [-5.12, 5.12],
+          ],
+          restarts: 9,
+          restartStrategy,
+          tolerance: 1e-10,
+          onIteration: ({ fx }) => fx < 1e-10,
+        },
+        status,
+      );
+      assertVectorAlmostEqual(x, [0, 0, 0], 1e-4);
+      expect(status.restarts).toBeGreaterThan(0);
+    },
+  );
+
+  test("stays within bounds", async () => {
+    const points: number[][] = [];
+    const x = await minimizeCMAES(
+      (x) => {
+        points.push(x.slice());
+        return (x[0] + 1) ** 2 + (x[1] - 4) ** 2;
+      },
+      [0.5, 2.5],
+      {
+        seed: 5,
+        bounds: [
+          [0, 1],
+          [2, 3],
+        ],
+      },
+    );
+    assertVectorAlmostEqual(x, [0, 3]);
+    for (const p of points) {
+      expect(p[0]).toBeGreaterThanOrEqual(0);
+      expect(p[0]).toBeLessThanOrEqual(1);
+      expect(p[1]).toBeGreaterThanOrEqual(2);
+      expect(p[1]).toBeLessThanOrEqual(3);
+    }
+  });
+
+  test("limits the number of concurrent evaluations", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await minimizeCMAES(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return rosenbrock(x);
+      },
+      [0, 0],
+      { seed: 6, populationSize: 10, concurrency: 4, maxIter: 3 },
+    );
+    expect(maxRunning).toBe(4);
+  });
+
+  test("evaluates generations in batches", async () => {
+    const batches: number[] = [];
+    await minimizeCMAES(rosenbrock, [0, 0], {
+      seed: 7,
+      maxIter: 2,
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(rosenbrock);
+      },
+    });
+    expect(batches).toEqual([6, 6]);
+  });
+
+  test("maximizes", async () => {
+    const status: CMAESStatus = {};
+    const x = await maximizeCMAES(
+      (x) => -rosenbrock(x),
+      [0, 0],
+      { seed: 8 },
+      status,
+    );
+    assertVectorAlmostEqual(x, [1, 1], 1e-4);
+    expect(status.fx).toBeCloseTo(0, 8);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: CMAESStatus = {};
+    const x = await minimizeCMAES(
+      rosenbrock,
+      [0, 0],
+      { seed: 9, maxEvaluations: 20 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(20);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of cmaesSteps(rosenbrock, [0, 0], {
+      seed: 10,
+      maxIter: 5,
+    })) {
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(5);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].fx).toBeLessThanOrEqual(steps[i - 1].fx);
+    }
+  });
+});
@@ -0,0 +1,399 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds, constrain } from "./bounds";
+import { norm, symmetricEigen } from "./linearAlgebra";
+import { MemoizeStatus } from "./memoize";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { normalGenerator, randomGenerator } from "./random";
+import { maximizing } from "./sense";
+
+export type RestartStrategy = "ipop" | "bipop";
+
+export interface CMAESOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  // The initial standard deviation along each dimension. Defaults to 30% of
+  // the bounds, or 1 for coordinates without finite bounds:
+  initialStep?: number | number[];
+  // Offspring outside the bounds are projected onto them:
+  bounds?: Bounds;
+  // Number of offspring per generation of the first run. Defaults to
+  // 4 + 3 ln(n).
+  populationSize?: number;
+  // Maximum number of generations of all runs together:
+  maxIter?: number;
+  // A run converges when the values of its recent generations differ by less
+  // than `tolerance`, or when the standard deviation along every dimension
+  // falls below `xTolerance`, which defaults to 1e-11 of the initial one:
+  tolerance?: number;
+  xTolerance?: number;
+  // Number of runs started after the previous run converged or stagnated.
+  // Defaults to 0.
+  restarts?: number;
+  // "ipop" doubles the population for every restart, while "bipop" also
+  // interleaves runs with smaller populations and step sizes, such that both
+  // kinds of runs use about the same number of evaluations. Defaults to
+  // "ipop".
+  restartStrategy?: RestartStrategy;
+  // Maximum number of evaluations running at the same time, or in the same
+  // batch. Defaults to the whole generation if `parallel` is set or `fBatch`
+  // is given, and to 1 otherwise.
+  concurrency?: number;
+  // Makes runs reproducible:
+  seed?: number;
+}
+
+export interface CMAESStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  // The search distribution of the last run. Its covariance is `stepSize`
+  // squared times `covariance`:
+  mean?: number[];
+  stepSize?: number;
+  covariance?: number[][];
+  populationSize?: number;
+  restarts?: number;
+}
+
+// The values are compared such that NaN is worse than anything:
+const better = (a: number, b: number) => !isNaN(a) && (isNaN(b) || a < b);
+
+// Minimizes f with the covariance matrix adaptation evolution strategy
+// (Hansen, 2016), which samples every generation from a normal distribution
+// whose mean, step size and covariance are adapted to the best offspring. The
+// iterations are the generations of all runs.
+export const minimizeCMAES = async <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: CMAESOptions<T>,
+  status?: CMAESStatus,
+): Promise<T | undefined> => {
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimizeCMAES(f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  const n = x0.length;
+  const bounds = options?.bounds ?? [];
+  const finiteBounds = x0.map((_, i) => {
+    const b = bounds[i];
+    return b && isFinite(b[0]) && isFinite(b[1]) ? b : undefined;
+  });
+  const initialStep = x0.map((_, i) => {
+    const s = options?.initialStep;
+    const b = finiteBounds[i];
+    return (Array.isArray(s) ? s[i] : s) || (b ? 0.3 * (b[1] - b[0]) : 1);
+  });
+  const defaultSize = Math.max(
+    options?.populationSize ?? 4 + Math.floor(3 * Math.log(n)),
+    2,
+  );
+  const maxIter = options?.maxIter ?? 1000 * Math.max(n, 1);
+  const tol = options?.tolerance ?? 1e-12;
+  const xTol = options?.xTolerance ?? 1e-11 * Math.max(...initialStep);
+  const maxRestarts = options?.restarts ?? 0;
+  const strategy = options?.restartStrategy ?? "ipop";
+  const random = randomGenerator(options?.seed);
+  const normal = normalGenerator(random);
+
+  if (status) status.aborted = false;
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const concurrency =
+    options?.concurrency ?? (objective.parallel ? Infinity : 1);
+  const evaluateAll = batchEvaluator(
+    evaluate,
+    objective.parallel || concurrency > 1,
+    signal,
+    concurrency,
+  );
+
+  // The state of the current run. The covariance starts out as the squared
+  // initial steps, so that the step size starts out at 1:
+  let size = defaultSize;
+  let mean = constrain(x0.slice(), bounds);
+  let sigma = 1;
+  let C = initialStep.map((si, i) =>
+    initialStep.map((_, j) => (i === j ? si * si : 0)),
+  );
+  let pc = new Array<number>(n).fill(0);
+  let ps = new Array<number>(n).fill(0);
+  let B = C.map((_, i) => C.map((_, j): number => (i === j ? 1 : 0)));
+  let D = initialStep.slice();
+  let generation = 0;
+  let eigenGeneration = 0;
+  let history: number[] = [];
+
+  let best: { x: T; fx: number } | undefined;
+  let iter = 0;
+  let restarts = 0;
+  // The evaluations of the runs with large and small populations for BIPOP:
+  let largeRuns = 0;
+  let largeEvaluations = 0;
+  let smallEvaluations = 0;
+  let small = false;
+
+  const startRun = (x: number[], populationSize: number, stepSize: number) => {
+    size = populationSize;
+    mean = x;
+    sigma = stepSize;
+    C = initialStep.map((si, i) =>
+      initialStep.map((_, j) => (i === j ? si * si : 0)),
+    );
+    pc = new Array<number>(n).fill(0);
+    ps = new Array<number>(n).fill(0);
+    B = C.map((_, i) => C.map((_, j): number => (i === j ? 1 : 0)));
+    D = initialStep.slice();
+    generation = 0;
+    eigenGeneration = 0;
+    history = [];
+  };
+
+  // Restarts from a random point, uniformly sampled within finite bounds or
+  // normally distributed around x0 otherwise:
+  const restart = () => {
+    restarts++;
+    const x = constrain(
+      x0.map((x0i, i) => {
+        const b = finiteBounds[i];
+        return b
+          ? b[0] + random() * (b[1] - b[0])
+          : x0i + initialStep[i] * normal();
+      }),
+      bounds,
+    );
+    if (
+      strategy === "ipop" ||
+      largeRuns === 0 ||
+      largeEvaluations <= smallEvaluations
+    ) {
+      largeRuns++;
+      small = false;
+      startRun(x, defaultSize * 2 ** largeRuns, 1);
+    } else {
+      const u = random();
+      small = true;
+      startRun(
+        x,
+        Math.max(
+          Math.floor(defaultSize * (0.5 * 2 ** largeRuns) ** (u * u)),
+          defaultSize,
+        ),
+        10 ** (-2 * u),
+      );
+    }
+  };
+
+  const stop = (reason: StopReason) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = best?.x.slice();
+      status.fx = best?.fx ?? NaN;
+      status.mean = mean.slice();
+      status.stepSize = sigma;
+      status.covariance = C.map((row) => row.slice());
+      status.populationSize = size;
+      status.restarts = restarts;
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return best?.x.slice() as T | undefined;
+  };
+
+  try {
+    for (;;) {
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations);
+      }
+      ++iter;
+      ++generation;
+
+      // The strategy parameters of the current population size:
+      const mu = Math.floor(size / 2);
+      const rawWeights = Array.from(
+        { length: mu },
+        (_, i) => Math.log(mu + 0.5) - Math.log(i + 1),
+      );
+      const weightSum = rawWeights.reduce((sum, w) => sum + w, 0);
+      const weights = rawWeights.map((w) => w / weightSum);
+      const mueff = 1 / weights.reduce((sum, w) => sum + w * w, 0);
+      const cc = (4 + mueff / n) / (n + 4 + (2 * mueff) / n);
+      const cs = (mueff + 2) / (n + mueff + 5);
+      const c1 = 2 / ((n + 1.3) ** 2 + mueff);
+      const cmu = Math.min(
+        1 - c1,
+        (2 * (mueff - 2 + 1 / mueff)) / ((n + 2) ** 2 + mueff),
+      );
+      const damps =
+        1 + 2 * Math.max(0, Math.sqrt((mueff - 1) / (n + 1)) - 1) + cs;
+      const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+
+      // The eigendecomposition is only updated often enough to keep its cost
+      // per generation at O(n^2):
+      if (generation - eigenGeneration >= 1 / (10 * n * (c1 + cmu))) {
+        eigenGeneration = generation;
+        const eigen = symmetricEigen(C);
+        B = eigen.vectors;
+        D = eigen.values.map((v) => Math.sqrt(Math.max(v, 0)));
+      }
+
+      // Offspring outside the bounds are replaced by their projections, which
+      // then also adapt the distribution:
+      const offspring = Array.from({ length: size }, () => {
+        const z = D.map((d) => d * normal());
+        const x = constrain(
+          mean.map(
+            (mi, i) =>
+              mi + sigma * B[i].reduce((s, bij, j) => s + bij * z[j], 0),
+          ),
+          bounds,
+        );
+        return x as T;
+      });
+      const values = await evaluateAll(offspring);
+      if (small) smallEvaluations += size;
+      else largeEvaluations += size;
+
+      const order = values
+        .map((_, k) => k)
+        .sort((a, b) =>
+          better(values[a], values[b])
+            ? -1
+            : better(values[b], values[a])
+            ? 1
+            : 0,
+        );
+      const first = order[0];
+      if (!best || better(values[first], best.fx)) {
+        if (!isNaN(values[first])) {
+          best = { x: offspring[first].slice() as T, fx: values[first] };
+        }
+      }
+      if (!best) {
+        return stop(StopReason.NaN);
+      }
+
+      const ys = order
+        .slice(0, mu)
+        .map((k) => offspring[k].map((xi, i) => (xi - mean[i]) / sigma));
+      const yw = mean.map((_, i) =>
+        ys.reduce((sum, y, k) => sum + weights[k] * y[i], 0),
+      );
+      mean = mean.map((mi, i) => mi + sigma * yw[i]);
+
+      // The evolution paths, the first one of which is uncorrelated by C^-1/2:
+      const rotated = B[0].map(
+        (_, j) =>
+          yw.reduce((sum, ywi, i) => sum + B[i][j] * ywi, 0) / (D[j] || 1),
+      );
+      const whitened = B.map((row) =>
+        row.reduce((sum, bij, j) => sum + bij * rotated[j], 0),
+      );
+      ps = ps.map(
+        (p, i) => (1 - cs) * p + Math.sqrt(cs * (2 - cs) * mueff) * whitened[i],
+      );
+      const hsig =
+        norm(ps) / Math.sqrt(1 - (1 - cs) ** (2 * generation)) / chiN <
+        1.4 + 2 / (n + 1)
+          ? 1
+          : 0;
+      pc = pc.map(
+        (p, i) =>
+          (1 - cc) * p + hsig * Math.sqrt(cc * (2 - cc) * mueff) * yw[i],
+      );
+
+      // The rank-one and rank-mu updates of the covariance:
+      const decay = 1 - c1 - cmu + c1 * (1 - hsig) * cc * (2 - cc);
+      C = C.map((row, i) =>
+        row.map(
+          (cij, j) =>
+            decay * cij +
+            c1 * pc[i] * pc[j] +
+            cmu * ys.reduce((sum, y, k) => sum + weights[k] * y[i] * y[j], 0),
+        ),
+      );
+      sigma *= Math.exp(Math.min(1, (cs / damps) * (norm(ps) / chiN - 1)));
+
+      // Escapes from flat regions by increasing the step size:
+      const sorted = order.map((k) => values[k]);
+      if (sorted[0] === sorted[Math.ceil(0.7 * size) - 1]) {
+        sigma *= Math.exp(0.2 + cs / damps);
+      }
+
+      const deviations = C.map((row, i) => sigma * Math.sqrt(row[i]));
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: best.x.slice() as T,
+          fx: best.fx,
+          iteration: iter,
+          stepSize: Math.max(...deviations),
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback);
+      }
+
+      // The run ends when it converged or when the distribution degenerated:
+      const window = 10 + Math.ceil((30 * n) / size);
+      history.push(sorted[0]);
+      if (history.length > window) history.shift();
+      const spread = history.concat(sorted);
+      let ended: StopReason | undefined;
+      if (
+        (history.length === window &&
+          spread.every(isFinite) &&
+          Math.max(...spread) - Math.min(...spread) < tol) ||
+        (deviations.every((d) => d < xTol) &&
+          pc.every((p) => sigma * Math.abs(p) < xTol))
+      ) {
+        ended = StopReason.Tolerance;
+      } else if (
+        !isFinite(sigma) ||
+        !deviations.every(isFinite) ||
+        Math.max(...D) > 1e7 * Math.min(...D)
+      ) {
+        ended = StopReason.NoMovement;
+      }
+      if (ended) {
+        if (restarts >= maxRestarts) {
+          return stop(ended);
+        }
+        restart();
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeCMAES = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: CMAESOptions<T>,
+  status?: CMAESStatus,
+) => minimizeCMAES(f, x0, { ...options, sense: "max" }, status);
+
+export const cmaesSteps = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: CMAESOptions<T>,
+  status?: CMAESStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeCMAES(f, x0, { ...options, onIteration }, status),
+  );
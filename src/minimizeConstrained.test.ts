@@ -0,0 +1,153 @@
+import {
+  ConstrainedStatus,
+  constrainedSteps,
+  maximizeConstrained,
+  minimizeConstrained,
+} from "./minimizeConstrained";
+import { minimizeNelderMead } from "./minimizeNelderMead";
+import { StopReason } from "./optimizationStatus";
+import { assertAlmostEqual, assertVectorAlmostEqual } from "./testUtils";
+
+const quadratic = (x: number[]) => (x[0] - 2) ** 2 + (x[1] - 1) ** 2;
+
+describe("minimizeConstrained", () => {
+  test("minimizes subject to an equality constraint", async () => {
+    const status: ConstrainedStatus = {};
+    // The closest point to [2, 1] on the line x + y = 1:
+    assertVectorAlmostEqual(
+      await minimizeConstrained(
+        quadratic,
+        [0, 0],
+        { equalities: [(x) => x[0] + x[1] - 1] },
+        status,
+      ),
+      [1, 0],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+    expect(status.violation).toBeLessThan(1e-6);
+    // The gradient of f is -lambda times the gradient of h:
+    assertAlmostEqual(status.multipliers!.equalities[0], 2, 1e-3);
+  });
+
+  test("minimizes subject to asynchronous inequality constraints", async () => {
+    const status: ConstrainedStatus = {};
+    // The closest point to [2, 1] in the unit disk:
+    const r = Math.sqrt(5);
+    assertVectorAlmostEqual(
+      await minimizeConstrained(
+        quadratic,
+        [0, 0],
+        {
+          inequalities: [
+            async (x) => {
+              await Promise.resolve();
+              return x[0] * x[0] + x[1] * x[1] - 1;
+            },
+            // Inactive at the solution:
+            (x) => -x[0],
+          ],
+          parallel: true,
+        },
+        status,
+      ),
+      [2 / r, 1 / r],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+    expect(status.inequalities![0]).toBeLessThan(1e-6);
+    expect(status.inequalities![1]).toBeLessThan(0);
+    expect(status.multipliers!.inequalities[0]).toBeGreaterThan(0);
+    expect(status.multipliers!.inequalities[1]).toBe(0);
+  });
+
+  test("returns the unconstrained minimum if it is feasible", async () => {
+    const status: ConstrainedStatus = {};
+    assertVectorAlmostEqual(
+      await minimizeConstrained(
+        quadratic,
+        [0, 0],
+        { inequalities: [(x) => x[0] - 10] },
+        status,
+      ),
+      [2, 1],
+      1e-4,
+    );
+    expect(status.violation).toBe(0);
+  });
+
+  test("drives other optimizers", async () => {
+    const status: ConstrainedStatus = {};
+    assertVectorAlmostEqual(
+      await minimizeConstrained(
+        quadratic,
+        [0, 0],
+        {
+          equalities: [(x) => x[0] + x[1] - 1],
+          minimizer: (f, x0, options) =>
+            minimizeNelderMead(f, x0, { ...options, tolerance: 1e-12 }),
+        },
+        status,
+      ),
+      [1, 0],
+      1e-3,
+    );
+    expect(status.violation).toBeLessThan(1e-6);
+  });
+
+  test("maximizes", async () => {
+    const status: ConstrainedStatus = {};
+    assertVectorAlmostEqual(
+      await maximizeConstrained(
+        (x) => x[0] + x[1],
+        [0, 0],
+        { inequalities: [(x) => x[0] * x[0] + x[1] * x[1] - 2] },
+        status,
+      ),
+      [1, 1],
+      1e-4,
+    );
+    assertAlmostEqual(status.fx, 2, 1e-4);
+  });
+
+  test("reports the violation of infeasible problems", async () => {
+    const status: ConstrainedStatus = {};
+    await minimizeConstrained(
+      quadratic,
+      [0, 0],
+      {
+        inequalities: [(x) => 1 - x[0], (x) => x[0] + 1],
+        maxIter: 5,
+      },
+      status,
+    );
+    expect(status.reason).toBe(StopReason.MaxIterations);
+    expect(status.converged).toBe(false);
+    assertAlmostEqual(status.violation, 1, 1e-3);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: ConstrainedStatus = {};
+    const x = await minimizeConstrained(
+      quadratic,
+      [0, 0],
+      { equalities: [(x) => x[0] + x[1] - 1], maxEvaluations: 300 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(300);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+    expect(status.violation).toBeDefined();
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of constrainedSteps(quadratic, [0, 0], {
+      equalities: [(x) => x[0] + x[1] - 1],
+    })) {
+      steps.push(step);
+    }
+    expect(steps.length).toBeGreaterThan(1);
+    assertVectorAlmostEqual(steps[steps.length - 1].x, [1, 0], 1e-4);
+  });
+});
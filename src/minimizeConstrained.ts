@@ -0,0 +1,254 @@
+import { AbortedError, abortable } from "./abortable";
+import { BudgetOptions } from "./budget";
+import { norm } from "./linearAlgebra";
+import { minimizePowell } from "./minimizePowell";
+import { Objective, Sense, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export type Constraint<T> = (
+  x: T,
+  signal?: AbortSignal,
+) => number | Promise<number>;
+
+// Any of the unconstrained optimizers, e.g. `minimizeNelderMead`, or a
+// function calling one with further options such as `bounds`:
+export type UnconstrainedMinimizer<T> = (
+  f: Objective<T>,
+  x0: T,
+  options: { signal?: AbortSignal },
+) => Promise<T | undefined>;
+
+export interface ConstrainedOptions<T extends number[] = number[]>
+  extends BudgetOptions,
+    ProgressOptions<T> {
+  signal?: AbortSignal;
+  sense?: Sense;
+  // Constraints of the form g(x) <= 0:
+  inequalities?: Constraint<T>[];
+  // Constraints of the form h(x) = 0:
+  equalities?: Constraint<T>[];
+  // Minimizes the augmented Lagrangian. Defaults to `minimizePowell`.
+  minimizer?: UnconstrainedMinimizer<T>;
+  // Evaluates the objective and the constraints at a point concurrently:
+  parallel?: boolean;
+  // Maximum number of unconstrained minimizations:
+  maxIter?: number;
+  // Convergence requires the largest constraint violation to fall below
+  // `constraintTolerance`, and the relative change of either the point or
+  // the objective between two minimizations to fall below `tolerance`:
+  tolerance?: number;
+  constraintTolerance?: number;
+  // The initial weight of the quadratic penalty, and the factor it grows by
+  // whenever the violation doesn't decrease enough:
+  penalty?: number;
+  penaltyGrowth?: number;
+}
+
+export interface ConstrainedStatus extends OptimizationStatus<number[]> {
+  // The largest violation of any constraint at the returned point:
+  violation?: number;
+  inequalities?: number[];
+  equalities?: number[];
+  // The estimated Lagrange multipliers of the constraints:
+  multipliers?: { inequalities: number[]; equalities: number[] };
+  penalty?: number;
+}
+
+interface Values {
+  fx: number;
+  g: number[];
+  h: number[];
+}
+
+const violationOf = ({ g, h }: Values) => Math.max(0, ...g, ...h.map(Math.abs));
+
+// Minimizes f subject to general constraints with the augmented Lagrangian
+// method: every iteration minimizes f plus multiplier and penalty terms of
+// the constraints with an unconstrained optimizer, then updates the
+// multipliers from the constraint values at the minimum.
+export const minimizeConstrained = async <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: ConstrainedOptions<T>,
+  status?: ConstrainedStatus,
+): Promise<T | undefined> => {
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimizeConstrained(f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  const inequalities = options?.inequalities ?? [];
+  const equalities = options?.equalities ?? [];
+  const minimizer = options?.minimizer ?? minimizePowell;
+  const maxIter = options?.maxIter ?? 50;
+  const tol = options?.tolerance ?? 1e-8;
+  const cTol = options?.constraintTolerance ?? 1e-6;
+  const growth = options?.penaltyGrowth ?? 10;
+  let mu = options?.penalty ?? 10;
+
+  // Only the objective counts as an evaluation:
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluateObjective = abortable(objective.f, signal);
+  const constraints = [...inequalities, ...equalities].map((c) =>
+    abortable(
+      (x: T, signal?: AbortSignal) => (signal ? c(x, signal) : c(x)),
+      signal,
+    ),
+  );
+
+  // The values of the points evaluated by the current minimization:
+  const evaluated = new Map<string, Values>();
+  const evaluate = async (x: T) => {
+    const calls = [evaluateObjective, ...constraints];
+    const values: number[] = [];
+    if (options?.parallel) {
+      values.push(...(await Promise.all(calls.map((c) => c(x)))));
+    } else {
+      for (const c of calls) values.push(await c(x));
+    }
+    const result = {
+      fx: values[0],
+      g: values.slice(1, 1 + inequalities.length),
+      h: values.slice(1 + inequalities.length),
+    };
+    evaluated.set(JSON.stringify(x), result);
+    return result;
+  };
+
+  let lambdas = equalities.map(() => 0);
+  let nus = inequalities.map(() => 0);
+
+  // The augmented Lagrangian in the Powell-Hestenes-Rockafellar form:
+  const lagrangian = async (x: T) => {
+    const { fx, g, h } = await evaluate(x);
+    let l = fx;
+    h.forEach((hj, j) => (l += lambdas[j] * hj + 0.5 * mu * hj * hj));
+    g.forEach(
+      (gi, i) =>
+        (l += (Math.max(0, nus[i] + mu * gi) ** 2 - nus[i] ** 2) / (2 * mu)),
+    );
+    return l;
+  };
+
+  let x = x0.slice() as T;
+  let values: Values | undefined;
+  let iter = 0;
+
+  const stop = (reason: StopReason, x: T | undefined) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? values?.fx : NaN;
+      status.violation = x && values ? violationOf(values) : undefined;
+      status.inequalities = x ? values?.g.slice() : undefined;
+      status.equalities = x ? values?.h.slice() : undefined;
+      status.multipliers = {
+        inequalities: nus.slice(),
+        equalities: lambdas.slice(),
+      };
+      status.penalty = mu;
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x;
+  };
+
+  try {
+    for (;;) {
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations, x);
+      }
+      ++iter;
+
+      const previous = values;
+      const xNew = await minimizer(lagrangian, x, { signal });
+      if (signal?.aborted) {
+        // The optimizers return the best point seen before they were
+        // aborted, whose values are known:
+        const v = xNew && evaluated.get(JSON.stringify(xNew));
+        if (xNew && v && (!values || violationOf(v) <= violationOf(values))) {
+          x = xNew;
+          values = v;
+        }
+        return stop(StopReason.Aborted, values ? x : undefined);
+      }
+      if (!xNew) {
+        return stop(StopReason.NaN, undefined);
+      }
+
+      const v = evaluated.get(JSON.stringify(xNew)) ?? (await evaluate(xNew));
+      evaluated.clear();
+      const stepSize = norm(xNew.map((xi, i) => xi - x[i]));
+      x = xNew;
+      values = v;
+      if (isNaN(v.fx) || !v.g.concat(v.h).every(isFinite)) {
+        return stop(StopReason.NaN, x);
+      }
+
+      // First order multiplier updates:
+      lambdas = lambdas.map((l, j) => l + mu * v.h[j]);
+      nus = nus.map((nu, i) => Math.max(0, nu + mu * v.g[i]));
+
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: x.slice() as T,
+          fx: v.fx,
+          iteration: iter,
+          stepSize,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback, x);
+      }
+
+      const violation = violationOf(v);
+      if (
+        violation <= cTol &&
+        previous &&
+        (stepSize <= tol * (1 + norm(x)) ||
+          Math.abs(previous.fx - v.fx) <= tol * (1 + Math.abs(v.fx)))
+      ) {
+        return stop(StopReason.Tolerance, x);
+      }
+
+      // The penalty only grows if the multipliers alone don't reduce the
+      // violation quickly enough:
+      if (previous && violation > 0.25 * violationOf(previous)) {
+        mu *= growth;
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted, values ? x : undefined);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeConstrained = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: ConstrainedOptions<T>,
+  status?: ConstrainedStatus,
+) => minimizeConstrained(f, x0, { ...options, sense: "max" }, status);
+
+export const constrainedSteps = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: ConstrainedOptions<T>,
+  status?: ConstrainedStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeConstrained(f, x0, { ...options, onIteration }, status),
+  );
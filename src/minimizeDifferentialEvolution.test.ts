@@ -0,0 +1,189 @@
+import {
+  DifferentialEvolutionStatus,
+  differentialEvolutionSteps,
+  maximizeDifferentialEvolution,
+  minimizeDifferentialEvolution,
+} from "./minimizeDifferentialEvolution";
+import { StopReason } from "./optimizationStatus";
+import { assertVectorAlmostEqual } from "./testUtils";
+
+// Many local minima, and the global minimum 0 at the origin:
+const rastrigin = (x: number[]) =>
+  10 * x.length +
+  x.reduce((sum, xi) => sum + xi * xi - 10 * Math.cos(2 * Math.PI * xi), 0);
+
+const bounds: [number, number][] = [
+  [-5.12, 5.12],
+  [-5.12, 5.12],
+];
+
+describe("minimizeDifferentialEvolution", () => {
+  test("finds the global minimum of the Rastrigin function", async () => {
+    const status: DifferentialEvolutionStatus = {};
+    const x = await minimizeDifferentialEvolution(
+      rastrigin,
+      { bounds, seed: 1 },
+      status,
+    );
+    assertVectorAlmostEqual(x, [0, 0], 1e-3);
+    expect(status.converged).toBe(true);
+    expect(status.reason).toBe(StopReason.Tolerance);
+    expect(status.population).toHaveLength(30);
+    expect(status.values).toHaveLength(30);
+  });
+
+  test("supports the rand/1/bin strategy", async () => {
+    const x = await minimizeDifferentialEvolution(rastrigin, {
+      bounds,
+      seed: 2,
+      strategy: "rand/1/bin",
+      populationSize: 40,
+    });
+    assertVectorAlmostEqual(x, [0, 0], 1e-3);
+  });
+
+  test("is reproducible with a seed", async () => {
+    const a: DifferentialEvolutionStatus = {};
+    const b: DifferentialEvolutionStatus = {};
+    await minimizeDifferentialEvolution(rastrigin, { bounds, seed: 3 }, a);
+    await minimizeDifferentialEvolution(rastrigin, { bounds, seed: 3 }, b);
+    expect(a.x).toEqual(b.x);
+    expect(a.evaluations).toBe(b.evaluations);
+  });
+
+  test("polishes the best member", async () => {
+    const status: DifferentialEvolutionStatus = {};
+    const x = await minimizeDifferentialEvolution(
+      (x) => (x[0] - 1) ** 2 + (x[1] - 2) ** 2,
+      {
+        bounds: [
+          [-5, 5],
+          [-5, 5],
+        ],
+        seed: 4,
+        tolerance: 0.1,
+        polish: true,
+      },
+      status,
+    );
+    assertVectorAlmostEqual(x, [1, 2]);
+    expect(status.polished).toBe(true);
+  });
+
+  test("stays within bounds", async () => {
+    const points: number[][] = [];
+    await minimizeDifferentialEvolution(
+      (x) => {
+        points.push(x.slice());
+        return x[0] + x[1];
+      },
+      {
+        bounds: [
+          [0, 1],
+          [2, 3],
+        ],
+        seed: 5,
+        polish: true,
+      },
+    );
+    for (const p of points) {
+      expect(p[0]).toBeGreaterThanOrEqual(0);
+      expect(p[0]).toBeLessThanOrEqual(1);
+      expect(p[1]).toBeGreaterThanOrEqual(2);
+      expect(p[1]).toBeLessThanOrEqual(3);
+    }
+  });
+
+  test("limits the number of concurrent evaluations", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await minimizeDifferentialEvolution(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return rastrigin(x);
+      },
+      { bounds, seed: 6, concurrency: 4, maxIter: 3 },
+    );
+    expect(maxRunning).toBe(4);
+  });
+
+  test("evaluates generations in batches", async () => {
+    const batches: number[] = [];
+    await minimizeDifferentialEvolution(rastrigin, {
+      bounds,
+      seed: 7,
+      maxIter: 2,
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(rastrigin);
+      },
+    });
+    expect(batches).toEqual([30, 30, 30]);
+  });
+
+  test("maximizes", async () => {
+    const status: DifferentialEvolutionStatus = {};
+    const x = await maximizeDifferentialEvolution(
+      (x) => -rastrigin(x),
+      { bounds, seed: 8 },
+      status,
+    );
+    assertVectorAlmostEqual(x, [0, 0], 1e-3);
+    expect(status.fx).toBeCloseTo(0, 4);
+    expect(Math.max(...status.values!)).toBe(status.fx);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: DifferentialEvolutionStatus = {};
+    const x = await minimizeDifferentialEvolution(
+      rastrigin,
+      { bounds, seed: 9, maxEvaluations: 100 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(100);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+    expect(status.iterations).toBe(3);
+  });
+
+  test("returns the best member evaluated when stopped in the initial population", async () => {
+    const status: DifferentialEvolutionStatus = {};
+    const x = await minimizeDifferentialEvolution(
+      rastrigin,
+      { bounds, seed: 9, populationSize: 20, maxEvaluations: 7 },
+      status,
+    );
+    expect(status.evaluations).toBe(7);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+    expect(status.aborted).toBe(false);
+    expect(status.iterations).toBe(0);
+    const evaluated = status.values!.filter((v) => !isNaN(v));
+    expect(evaluated).toHaveLength(7);
+    expect(status.fx).toBe(Math.min(...evaluated));
+    expect(x).toEqual(status.x);
+    expect(rastrigin(x!)).toBe(status.fx);
+  });
+
+  test("requires finite bounds", async () => {
+    await expect(
+      minimizeDifferentialEvolution(rastrigin, { bounds: [[0, 1], null] }),
+    ).rejects.toThrow();
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of differentialEvolutionSteps(rastrigin, {
+      bounds,
+      seed: 10,
+      maxIter: 5,
+    })) {
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(5);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].fx).toBeLessThanOrEqual(steps[i - 1].fx);
+    }
+  });
+});
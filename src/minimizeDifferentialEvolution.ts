@@ -0,0 +1,293 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds } from "./bounds";
+import { MemoizeStatus } from "./memoize";
+import { PowellOptions, PowellStatus, minimizePowell } from "./minimizePowell";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { randomGenerator } from "./random";
+import { SamplingMethod, samplePoints } from "./samplePoints";
+import { maximizing } from "./sense";
+
+export type DifferentialEvolutionStrategy = "rand/1/bin" | "best/1/bin";
+
+export interface DifferentialEvolutionOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  // Finite bounds for every dimension, which contain the population:
+  bounds: Bounds;
+  // Whether mutations start from random members or from the best member.
+  // Defaults to "best/1/bin".
+  strategy?: DifferentialEvolutionStrategy;
+  // Defaults to 15 members per dimension, but at least 5.
+  populationSize?: number;
+  // The differential weight, or a range to draw it from for every generation.
+  // Defaults to [0.5, 1].
+  mutation?: number | [number, number];
+  // The probability of a coordinate to be taken from the mutant. Defaults to
+  // 0.7.
+  crossover?: number;
+  // Maximum number of generations:
+  maxIter?: number;
+  // Convergence requires the standard deviation of the values of the
+  // population to fall below this tolerance relative to their mean:
+  tolerance?: number;
+  // Maximum number of evaluations running at the same time, or in the same
+  // batch. Defaults to the whole population if `parallel` is set or `fBatch`
+  // is given, and to 1 otherwise.
+  concurrency?: number;
+  // Makes runs reproducible:
+  seed?: number;
+  // How the initial population is sampled. Defaults to "latinHypercube".
+  init?: SamplingMethod;
+  // Refines the best member with `minimizePowell` in the end, optionally
+  // with the given options:
+  polish?: boolean | PowellOptions<T>;
+}
+
+export interface DifferentialEvolutionStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  population?: number[][];
+  values?: number[];
+  // Whether polishing improved the best member:
+  polished?: boolean;
+}
+
+// The values are compared such that NaN is worse than anything:
+const better = (a: number, b: number) => !isNaN(a) && (isNaN(b) || a < b);
+
+export const minimizeDifferentialEvolution = async <T extends number[]>(
+  f: Objective<T>,
+  options: DifferentialEvolutionOptions<T>,
+  status?: DifferentialEvolutionStatus,
+): Promise<T | undefined> => {
+  if (options.sense === "max") {
+    const x = await maximizing(
+      (f, options) => minimizeDifferentialEvolution(f, options, status),
+      f,
+      options,
+      status,
+    );
+    if (status) status.values = status.values?.map((v) => -v);
+    return x;
+  }
+
+  const bounds = options.bounds.map((b) => {
+    if (!b || !isFinite(b[0]) || !isFinite(b[1])) {
+      throw new Error("Differential evolution requires finite bounds");
+    }
+    return b;
+  });
+  const n = bounds.length;
+  const size = Math.max(options.populationSize ?? 15 * n, 5);
+  const strategy = options.strategy ?? "best/1/bin";
+  const mutation = options.mutation ?? [0.5, 1];
+  const crossover = options.crossover ?? 0.7;
+  const maxIter = options.maxIter ?? 1000;
+  const tol = options.tolerance ?? 1e-6;
+  const random = randomGenerator(options.seed);
+
+  if (status) {
+    status.aborted = false;
+    status.polished = false;
+  }
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const concurrency =
+    options.concurrency ?? (objective.parallel ? Infinity : 1);
+  const evaluateAll = batchEvaluator(
+    evaluate,
+    objective.parallel || concurrency > 1,
+    signal,
+    concurrency,
+  );
+
+  // Picks k distinct members other than i:
+  const pick = (i: number, k: number) => {
+    const picked: number[] = [];
+    while (picked.length < k) {
+      const j = Math.floor(random() * size);
+      if (j !== i && !picked.includes(j)) picked.push(j);
+    }
+    return picked;
+  };
+
+  // Mutates and crosses over member i. Coordinates outside the bounds are
+  // sampled anew within them:
+  const trial = (population: T[], i: number, best: number, F: number) => {
+    const [r1, r2, r3] = pick(i, 3);
+    const base = strategy === "best/1/bin" ? population[best] : population[r1];
+    const [a, b] = strategy === "best/1/bin" ? [r1, r2] : [r2, r3];
+    const jRand = Math.floor(random() * n);
+    return population[i].map((xj, j) => {
+      if (j !== jRand && random() >= crossover) return xj;
+      const v = base[j] + F * (population[a][j] - population[b][j]);
+      const [lower, upper] = bounds[j];
+      return v < lower || v > upper ? lower + random() * (upper - lower) : v;
+    }) as T;
+  };
+
+  let population = samplePoints(
+    options.init ?? "latinHypercube",
+    size,
+    bounds,
+    random,
+  ) as T[];
+  let values: number[] = [];
+  let best = 0;
+  let iter = 0;
+
+  const findBest = () => {
+    best = 0;
+    values.forEach((v, i) => {
+      if (better(v, values[best])) best = i;
+    });
+  };
+
+  const stop = (reason: StopReason) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    const x =
+      values.length > 0 && !isNaN(values[best]) ? population[best] : undefined;
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? values[best] : NaN;
+      status.population = population.map((p) => p.slice());
+      status.values = values.slice();
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x?.slice() as T | undefined;
+  };
+
+  const polish = async () => {
+    const polishOptions =
+      typeof options.polish === "object" ? options.polish : {};
+    const powell: PowellStatus = { points: [] };
+    const x = await minimizePowell(
+      evaluate,
+      population[best].slice() as T,
+      { ...polishOptions, bounds, signal },
+      powell,
+    );
+    const fx = powell.fx ?? NaN;
+    if (x && better(fx, values[best])) {
+      population[best] = x;
+      values[best] = fx;
+      if (status) status.polished = true;
+    }
+  };
+
+  // Finishes with polishing if requested. Polishing returns the best point
+  // seen if it runs out of budget, and the reason why the generations
+  // stopped is kept:
+  const finish = async (reason: StopReason) => {
+    if (options.polish) await polish();
+    return stop(reason);
+  };
+
+  // The values of the initial population are recorded as they come in, so
+  // that the best member evaluated so far is returned if the run stops before
+  // the whole population has been evaluated:
+  const evaluateInitial = batchEvaluator(
+    async (x: T) => {
+      const fx = await evaluate(x);
+      values[population.indexOf(x)] = fx;
+      return fx;
+    },
+    objective.parallel || concurrency > 1,
+    signal,
+    concurrency,
+  );
+
+  try {
+    values = population.map(() => NaN);
+    values = await evaluateInitial(population);
+    findBest();
+
+    for (;;) {
+      if (values.every(isNaN)) {
+        return stop(StopReason.NaN);
+      }
+
+      const finite = values.filter(isFinite);
+      const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+      const spread = Math.sqrt(
+        finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / finite.length,
+      );
+      if (
+        finite.length === size &&
+        spread <= tol * Math.max(Math.abs(mean), 1)
+      ) {
+        return await finish(StopReason.Tolerance);
+      }
+      if (iter >= maxIter) {
+        return await finish(StopReason.MaxIterations);
+      }
+      ++iter;
+
+      const F = Array.isArray(mutation)
+        ? mutation[0] + random() * (mutation[1] - mutation[0])
+        : mutation;
+      const trials = population.map((_, i) => trial(population, i, best, F));
+      const trialValues = await evaluateAll(trials);
+      population = population.map((x, i) =>
+        better(trialValues[i], values[i]) || trialValues[i] === values[i]
+          ? trials[i]
+          : x,
+      );
+      values = values.map((v, i) =>
+        better(trialValues[i], v) ? trialValues[i] : v,
+      );
+      findBest();
+
+      const stepSize = Math.max(
+        ...bounds.map((_, j) => {
+          const xs = population.map((x) => x[j]);
+          return Math.max(...xs) - Math.min(...xs);
+        }),
+      );
+      if (
+        options.onIteration &&
+        (await options.onIteration({
+          x: population[best].slice() as T,
+          fx: values[best],
+          iteration: iter,
+          stepSize,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback);
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    // Members whose trials were interrupted keep their previous values, and
+    // those of the initial population that weren't evaluated are NaN:
+    findBest();
+    return stop(StopReason.Aborted);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeDifferentialEvolution = <T extends number[]>(
+  f: Objective<T>,
+  options: DifferentialEvolutionOptions<T>,
+  status?: DifferentialEvolutionStatus,
+) => minimizeDifferentialEvolution(f, { ...options, sense: "max" }, status);
+
+export const differentialEvolutionSteps = <T extends number[]>(
+  f: Objective<T>,
+  options: DifferentialEvolutionOptions<T>,
+  status?: DifferentialEvolutionStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeDifferentialEvolution(f, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,106 @@
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import {
+  fibonacciSteps,
+  maximizeFibonacci1D,
+  minimizeFibonacci1D,
+} from "./minimizeFibonacci1D";
+import { StopReason } from "./optimizationStatus";
+
+describe("minimizeFibonacci1D", () => {
+  test.each([
+    [0, 100, 37.3, 37],
+    [0, 100, 37.6, 38],
+    [-5, 7, -20, -5],
+    [-5, 7, 20, 7],
+    [3, 3, 0, 3],
+    [3, 4, 3.9, 4],
+    [3, 5, 4.1, 4],
+    [1, 1000, 1, 1],
+    [1, 1000, 1000, 1000],
+  ])(
+    "finds the integer minimum in [%d, %d] of a parabola at %d",
+    async (lowerBound, upperBound, center, expected) => {
+      const evaluated: number[] = [];
+      const status: GoldenSectionMinimizeStatus = {};
+      const x = await minimizeFibonacci1D(
+        (x) => {
+          evaluated.push(x);
+          return (x - center) ** 2;
+        },
+        { lowerBound, upperBound },
+        status,
+      );
+      expect(x).toBe(expected);
+      expect(status.argmin).toBe(expected);
+      expect(status.converged).toBe(true);
+      for (const x of evaluated) {
+        expect(Number.isInteger(x)).toBe(true);
+        expect(x).toBeGreaterThanOrEqual(lowerBound);
+        expect(x).toBeLessThanOrEqual(upperBound);
+      }
+      expect(new Set(evaluated).size).toBe(evaluated.length);
+    },
+  );
+
+  test("needs a logarithmic number of evaluations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeFibonacci1D(
+      (x) => Math.abs(x - 12345),
+      { lowerBound: 0, upperBound: 100000 },
+      status,
+    );
+    expect(status.argmin).toBe(12345);
+    expect(status.evaluations).toBeLessThanOrEqual(27);
+  });
+
+  test("rounds the bounds inwards", async () => {
+    const x = await minimizeFibonacci1D((x) => x, {
+      lowerBound: 0.5,
+      upperBound: 9.5,
+    });
+    expect(x).toBe(1);
+  });
+
+  test("requires an integer within the bounds", async () => {
+    await expect(
+      minimizeFibonacci1D((x) => x, { lowerBound: 0.2, upperBound: 0.8 }),
+    ).rejects.toThrow();
+  });
+
+  test("maximizes", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const x = await maximizeFibonacci1D(
+      (x) => -((x - 17) ** 2),
+      { lowerBound: 0, upperBound: 50 },
+      status,
+    );
+    expect(x).toBe(17);
+    expect(status.fx).toBe(-0);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const x = await minimizeFibonacci1D(
+      (x) => (x - 70) ** 2,
+      { lowerBound: 0, upperBound: 100, maxEvaluations: 4 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(4);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of fibonacciSteps((x) => (x - 70) ** 2, {
+      lowerBound: 0,
+      upperBound: 100,
+    })) {
+      steps.push(step);
+    }
+    expect(steps.length).toBeGreaterThan(5);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i].stepSize).toBeLessThan(steps[i - 1].stepSize);
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { AbortedError, abortable } from "./abortable";
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export interface FibonacciOptions
+  extends ObjectiveOptions<number>,
+    ProgressOptions<number> {
+  // The integers within these bounds are searched:
+  lowerBound: number;
+  upperBound: number;
+}
+
+// Minimizes a unimodal function of an integer by Fibonacci search, the
+// discrete counterpart of golden section search, which shrinks the range of
+// integers by the golden ratio with every evaluation. The function is only
+// called with integers within the bounds, each at most once.
+export const minimizeFibonacci1D = async (
+  f: Objective<number>,
+  options: FibonacciOptions,
+  status?: GoldenSectionMinimizeStatus,
+): Promise<number | undefined> => {
+  if (options.sense === "max") {
+    return maximizing(
+      (f, options) => minimizeFibonacci1D(f, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  const lower = Math.ceil(options.lowerBound);
+  const upper = Math.floor(options.upperBound);
+  if (!isFinite(lower) || !isFinite(upper) || lower > upper) {
+    throw new Error(
+      "Fibonacci search requires an integer within finite bounds",
+    );
+  }
+
+  if (status) status.aborted = false;
+
+  const objective = wrapObjective(f, options, status);
+  const evaluate = abortable(objective.f, objective.signal);
+
+  // Integers beyond the upper bound pad the range to a Fibonacci number and
+  // are never evaluated:
+  const values = new Map<number, number>();
+  const value = async (x: number) => {
+    if (x > upper) return Infinity;
+    let fx = values.get(x);
+    if (fx === undefined) {
+      fx = await evaluate(x);
+      values.set(x, fx);
+    }
+    return fx;
+  };
+
+  let best: number | undefined;
+  let iter = 0;
+
+  const stop = (reason: StopReason) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    values.forEach((fx, x) => {
+      if (!isNaN(fx) && (best === undefined || fx < values.get(best)!)) {
+        best = x;
+      }
+    });
+    if (status) {
+      status.x = best;
+      status.fx = best === undefined ? NaN : values.get(best);
+      status.argmin = status.x;
+      status.minimum = status.fx;
+      status.iterations = iter;
+      status.converged = reason === StopReason.Tolerance;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return best;
+  };
+
+  // The Fibonacci numbers up to the first one that covers the range:
+  const fibonacci = [0, 1];
+  while (fibonacci[fibonacci.length - 1] < upper - lower) {
+    fibonacci.push(
+      fibonacci[fibonacci.length - 1] + fibonacci[fibonacci.length - 2],
+    );
+  }
+
+  try {
+    // The range [a, a + F(k)] contains the minimum, and c and d divide it
+    // into Fibonacci numbers of integers:
+    let a = lower;
+    let k = fibonacci.length - 1;
+    let c = a + fibonacci[k - 2];
+    let d = a + fibonacci[k - 1];
+    let fc = k > 3 ? await value(c) : NaN;
+    let fd = k > 3 ? await value(d) : NaN;
+
+    while (k > 3) {
+      ++iter;
+      if (!(fc > fd)) {
+        k--;
+        d = c;
+        fd = fc;
+        c = a + fibonacci[k - 2];
+        fc = await value(c);
+      } else {
+        a = c;
+        k--;
+        c = d;
+        fc = fd;
+        d = a + fibonacci[k - 1];
+        fd = await value(d);
+      }
+
+      const x = fc <= fd || isNaN(fd) ? c : d;
+      if (
+        options.onIteration &&
+        (await options.onIteration({
+          x,
+          fx: values.get(x)!,
+          iteration: iter,
+          stepSize: fibonacci[k],
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback);
+      }
+    }
+
+    // At most three integers are left:
+    for (let x = a; x <= Math.min(a + fibonacci[k], upper); x++) {
+      await value(x);
+    }
+    return stop(
+      [...values.values()].every(isNaN) ? StopReason.NaN : StopReason.Tolerance,
+    );
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeFibonacci1D = (
+  f: Objective<number>,
+  options: FibonacciOptions,
+  status?: GoldenSectionMinimizeStatus,
+) => minimizeFibonacci1D(f, { ...options, sense: "max" }, status);
+
+export const fibonacciSteps = (
+  f: Objective<number>,
+  options: FibonacciOptions,
+  status?: GoldenSectionMinimizeStatus,
+) =>
+  iterate<number, number | undefined>((onIteration) =>
+    minimizeFibonacci1D(f, { ...options, onIteration }, status),
+  );
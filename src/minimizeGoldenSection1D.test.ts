@@ -1,5 +1,15 @@
-import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
-import { minimizeGoldenSection1D } from "./minimizeGoldenSection1D";
+import { bracketMinimum } from "./bracket-minimum";
+import {
+  GoldenSectionMinimizeStatus,
+  goldenSectionMinimize,
+} from "./goldenSectionMinimize";
+import { Minimizer1DState } from "./minimize1D";
+import {
+  goldenSectionSteps,
+  maximizeGoldenSection1D,
+  minimizeGoldenSection1D,
+} from "./minimizeGoldenSection1D";
+import { StopReason } from "./optimizationStatus";
 
 const assertAlmostEqual = (
   computed: number | undefined,
@@ -266,4 +276,479 @@ describe("minimizeGoldenSection1D", () => {
       5,
     );
   });
+
+  test("stops evaluating once aborted", async () => {
+    const controller = new AbortController();
+    const status: GoldenSectionMinimizeStatus = {};
+    let evaluations = 0;
+    const answer = await minimizeGoldenSection1D(
+      (x) => {
+        if (++evaluations === 10) controller.abort();
+        return x * (x - 2);
+      },
+      { lowerBound: 0, upperBound: 3, signal: controller.signal },
+      status,
+    );
+    expect(evaluations).toEqual(10);
+    expect(status.aborted).toBeTruthy();
+    expect(status.converged).toBeFalsy();
+    expect(answer).toEqual(status.argmin);
+    expect(status.minimum).toEqual(answer! * (answer! - 2));
+  });
+
+  test("returns the best point found while bracketing when aborted", async () => {
+    const controller = new AbortController();
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeGoldenSection1D(
+      (x) => {
+        if (x > 2) controller.abort();
+        return x * (x - 2);
+      },
+      { guess: 0, signal: controller.signal },
+      status,
+    );
+    expect(status.aborted).toBeTruthy();
+    expect(answer).toEqual(1);
+    expect(status.minimum).toEqual(-1);
+  });
+
+  test("forwards the signal to the objective", async () => {
+    const controller = new AbortController();
+    const status: GoldenSectionMinimizeStatus = {};
+    let evaluations = 0;
+    const answer = await minimizeGoldenSection1D(
+      (x, signal) => {
+        expect(signal).toBe(controller.signal);
+        if (++evaluations < 5) return Promise.resolve(x * (x - 2));
+        return new Promise<number>((_, reject) => {
+          signal!.addEventListener("abort", () => reject(new Error("aborted")));
+          controller.abort();
+        });
+      },
+      { lowerBound: 0, upperBound: 3, signal: controller.signal },
+      status,
+    );
+    expect(evaluations).toEqual(5);
+    expect(status.aborted).toBeTruthy();
+    expect(answer).toEqual(status.argmin);
+  });
+
+  test("does not evaluate with an already aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const status: GoldenSectionMinimizeStatus = {};
+    const f = jest.fn((x: number) => x);
+    expect(
+      await minimizeGoldenSection1D(f, { signal: controller.signal }, status),
+    ).toBeUndefined();
+    expect(f).not.toHaveBeenCalled();
+    expect(status.aborted).toBeTruthy();
+  });
+
+  test("rethrows errors that are not caused by aborting", async () => {
+    const controller = new AbortController();
+    await expect(
+      minimizeGoldenSection1D(
+        () => {
+          throw new Error("failed");
+        },
+        { lowerBound: 0, upperBound: 1, signal: controller.signal },
+      ),
+    ).rejects.toThrow("failed");
+  });
+
+  test("evaluates independent points concurrently", async () => {
+    let pending = 0;
+    let maxPending = 0;
+    const answer = await minimizeGoldenSection1D(
+      async (x) => {
+        maxPending = Math.max(maxPending, ++pending);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        --pending;
+        return x * (x - 2);
+      },
+      { lowerBound: -3, upperBound: 5, parallel: true },
+    );
+    assertAlmostEqual(answer, 1);
+    expect(maxPending).toEqual(4);
+  });
+
+  test("evaluates independent points with a batched objective", async () => {
+    const f = jest.fn((x: number) => x * (x - 2));
+    const batchSizes: number[] = [];
+    const answer = await minimizeGoldenSection1D(f, {
+      guess: 10,
+      fBatch: (xs) => {
+        batchSizes.push(xs.length);
+        return Promise.resolve(xs.map((x) => x * (x - 2)));
+      },
+    });
+    assertAlmostEqual(answer, 1);
+    expect(batchSizes).toContain(2);
+    expect(batchSizes).toContain(4);
+  });
+
+  test("fails if the batched objective returns the wrong number of values", async () => {
+    await expect(
+      minimizeGoldenSection1D((x) => x, {
+        lowerBound: 0,
+        upperBound: 1,
+        fBatch: () => [0],
+      }),
+    ).rejects.toThrow("Batched objective returned 1 values for 4 points");
+  });
+
+  test("memoizes evaluations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const f = jest.fn((x: number) => Math.abs(x - 1));
+    assertAlmostEqual(
+      await minimizeGoldenSection1D(
+        f,
+        { guess: 1, memoize: { tolerance: 1e-3 } },
+        status,
+      ),
+      1,
+      1e-3,
+    );
+    expect(status.cacheHits).toBeGreaterThan(0);
+    expect(status.cacheMisses).toEqual(f.mock.calls.length);
+  });
+
+  test("uses a pre-seeded cache", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const f = jest.fn((x: number) => x * (x - 2));
+    const seed: [number, number][] = [0, 1, 2, 3].map((x) => [x, f(x)]);
+    f.mockClear();
+    await minimizeGoldenSection1D(
+      f,
+      { lowerBound: 0, upperBound: 3, memoize: { seed } },
+      status,
+    );
+    expect(f).not.toHaveBeenCalledWith(0);
+    expect(f).not.toHaveBeenCalledWith(3);
+    expect(status.cacheHits).toEqual(2);
+  });
+
+  test("reports the result in the status", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const f = jest.fn((x: number) => x * (x - 2));
+    const answer = await minimizeGoldenSection1D(f, {}, status);
+    expect(status.x).toEqual(answer);
+    assertAlmostEqual(status.fx, -1);
+    expect(status.evaluations).toEqual(f.mock.calls.length);
+    expect(status.converged).toBeTruthy();
+    expect(status.reason).toEqual(StopReason.Tolerance);
+  });
+
+  test("reports the value the objective has at the result", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const f = jest.fn((x: number) => Math.abs(x - 1) + (x - 1) ** 2);
+    const answer = await minimizeGoldenSection1D(
+      f,
+      { lowerBound: -3, upperBound: 4, tolerance: 1e-3 },
+      status,
+    );
+    expect(status.fx).toEqual(f(answer!));
+    expect(status.minimum).not.toEqual(status.fx);
+    // The result is one of the evaluated points, the bounds included:
+    expect(f.mock.calls.slice(0, -1).map(([x]) => x)).toContain(answer);
+    expect(status.evaluations).toEqual(status.iterations! + 3);
+  });
+
+  test("reports the value at the bound when it is returned", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeGoldenSection1D(
+      (x) => x,
+      { lowerBound: 0.5, upperBound: 1 },
+      status,
+    );
+    expect(status.x).toEqual(0.5);
+    expect(status.fx).toEqual(0.5);
+  });
+
+  test("reports running out of iterations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeGoldenSection1D(
+      (x) => x * (x - 2),
+      { tolerance: 0, maxIterations: 20 },
+      status,
+    );
+    expect(status.converged).toBeFalsy();
+    expect(status.reason).toEqual(StopReason.MaxIterations);
+  });
+
+  test("reports NaN", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeGoldenSection1D(() => NaN, {}, status);
+    expect(status.converged).toBeFalsy();
+    expect(status.reason).toEqual(StopReason.NaN);
+  });
+
+  test("reports aborting", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeGoldenSection1D(
+      (x) => x,
+      { signal: controller.signal },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Aborted);
+    expect(status.evaluations).toEqual(0);
+  });
+
+  test("reports every iteration", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const steps: number[] = [];
+    await minimizeGoldenSection1D(
+      (x) => x * (x - 2),
+      {
+        lowerBound: 0,
+        upperBound: 3,
+        onIteration: async (step) => {
+          await Promise.resolve();
+          steps.push(step.iteration);
+          expect(step.fx).toEqual(step.x * (step.x - 2));
+        },
+      },
+      status,
+    );
+    expect(steps.length).toEqual(status.iterations! - 1);
+    expect(steps[0]).toEqual(1);
+  });
+
+  test("stops when the callback asks to", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeGoldenSection1D(
+      (x) => x * (x - 2),
+      {
+        lowerBound: 0,
+        upperBound: 3,
+        onIteration: (step) => step.stepSize < 0.1,
+      },
+      status,
+    );
+    assertAlmostEqual(answer, 1, 0.1);
+    expect(status.converged).toBeFalsy();
+    expect(status.reason).toEqual(StopReason.StoppedByCallback);
+  });
+
+  test("yields the iterations", async () => {
+    const steps = goldenSectionSteps((x) => x * (x - 2), {
+      lowerBound: 0,
+      upperBound: 3,
+    });
+    let previous = Infinity;
+    for await (const step of steps) {
+      expect(step.stepSize).toBeLessThan(previous);
+      previous = step.stepSize;
+    }
+    expect(previous).toBeLessThan(1e-8);
+  });
+
+  test("resumes from a checkpoint", async () => {
+    const f = (x: number) => x * (x - 2);
+    const options = { lowerBound: 0, upperBound: 3, memoize: true };
+    const full: GoldenSectionMinimizeStatus = {};
+    const expected = await minimizeGoldenSection1D(f, options, full);
+
+    const states: Minimizer1DState[] = [];
+    await minimizeGoldenSection1D(f, {
+      ...options,
+      onCheckpoint: (s) => {
+        states.push(s);
+      },
+      onIteration: (step) => step.iteration === 10,
+    });
+    expect(states.length).toEqual(10);
+    expect(states[9].evaluations!.length).toEqual(14);
+
+    const status: GoldenSectionMinimizeStatus = {};
+    const result = await minimizeGoldenSection1D(
+      f,
+      { ...options, resume: states[9] },
+      status,
+    );
+    expect(result).toEqual(expected);
+    expect(status.iterations).toEqual(full.iterations);
+    expect(status.cacheMisses).toEqual(full.cacheMisses! - 14);
+  });
+
+  test("maximizes a cubic without negating it by hand", async () => {
+    const f = (x: number) => x * (x - 2) * (x - 1);
+    const status: GoldenSectionMinimizeStatus = {};
+    const values: number[] = [];
+    const answer = await maximizeGoldenSection1D(
+      f,
+      {
+        lowerBound: 0,
+        upperBound: 3,
+        onIteration: (step) => {
+          values.push(step.fx);
+        },
+      },
+      status,
+    );
+    assertAlmostEqual(answer, 3);
+    assertAlmostEqual(status.x, 3);
+    assertAlmostEqual(status.fx, 6);
+    expect(values.every((fx) => fx > 0)).toBeTruthy();
+
+    const sense: GoldenSectionMinimizeStatus = {};
+    assertAlmostEqual(
+      await minimizeGoldenSection1D(f, { sense: "max", upperBound: 3 }, sense),
+      3,
+    );
+    assertAlmostEqual(sense.fx, 6);
+    assertAlmostEqual(sense.minimum, 6);
+  });
+});
+
+describe("Golden section budget", () => {
+  const f = (x: number) => x * (x - 2);
+
+  test("limits the evaluations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const values: number[] = [];
+    const answer = await minimizeGoldenSection1D(
+      (x) => {
+        values.push(f(x));
+        return f(x);
+      },
+      { maxEvaluations: 12 },
+      status,
+    );
+    expect(values.length).toEqual(12);
+    expect(status.evaluations).toEqual(12);
+    expect(status.reason).toEqual(StopReason.MaxEvaluations);
+    expect(status.aborted).toBeFalsy();
+    expect(status.converged).toBeFalsy();
+    expect(status.fx).toEqual(Math.min(...values));
+    expect(f(answer!)).toEqual(status.fx);
+  });
+
+  test("doesn't count cached evaluations", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    await minimizeGoldenSection1D(
+      f,
+      { maxEvaluations: 1000, memoize: { seed: [[0, 0]] } },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Tolerance);
+    expect(status.cacheHits).toBeGreaterThan(0);
+  });
+
+  test("stops at the deadline", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeGoldenSection1D(
+      async (x) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return f(x);
+      },
+      { lowerBound: 0, upperBound: 3, timeoutMs: 100 },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Timeout);
+    expect(status.evaluations).toBeLessThan(20);
+    expect(answer).toEqual(status.x);
+  });
+
+  test("is honored by the low-level routines", async () => {
+    let evaluations = 0;
+    const g = (x: number) => {
+      evaluations++;
+      return f(x);
+    };
+    const status: GoldenSectionMinimizeStatus = {};
+    const x = await goldenSectionMinimize(
+      g,
+      0,
+      3,
+      1e-8,
+      100,
+      status,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { maxEvaluations: 10 },
+    );
+    expect(evaluations).toEqual(10);
+    expect(status.reason).toEqual(StopReason.MaxEvaluations);
+    expect(x).toEqual(status.x);
+
+    evaluations = 0;
+    const bounds = await bracketMinimum(
+      [0, 0],
+      g,
+      100,
+      1,
+      -Infinity,
+      Infinity,
+      undefined,
+      undefined,
+      { maxEvaluations: 5 },
+    );
+    expect(evaluations).toEqual(5);
+    expect(bounds[0]).toBeLessThan(100);
+  });
+});
+
+describe("Golden section failing evaluations", () => {
+  test("penalizes NaN", async () => {
+    const f = (x: number) => (x < 0 ? NaN : (x - 1) ** 2);
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeGoldenSection1D(
+      f,
+      { lowerBound: -3, upperBound: 2, onFailure: "penalty" },
+      status,
+    );
+    assertAlmostEqual(answer, 1);
+    expect(status.failures!.length).toBeGreaterThan(0);
+    expect(status.failures!.every((failure) => failure.x < 0)).toBeTruthy();
+  });
+
+  test("stops with the best point on failures", async () => {
+    const status: GoldenSectionMinimizeStatus = {};
+    let evaluations = 0;
+    const answer = await minimizeGoldenSection1D(
+      async (x) => {
+        if (++evaluations > 20) throw new Error("failed");
+        return Promise.resolve((x - 1) ** 2);
+      },
+      { onFailure: "abort" },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.EvaluationFailed);
+    expect(status.failures).toEqual([
+      {
+        x: expect.any(Number) as number,
+        error: new Error("failed"),
+        attempts: 1,
+      },
+    ]);
+    expect(answer).toEqual(status.x);
+    assertAlmostEqual(answer, 1, 0.1);
+  });
+});
+
+describe("Golden section noisy objectives", () => {
+  test("resamples near convergence", async () => {
+    let state = 7;
+    const random = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648 - 0.5;
+    };
+    const status: GoldenSectionMinimizeStatus = {};
+    const answer = await minimizeGoldenSection1D(
+      (x) => (x - 1) ** 2 + 0.01 * random(),
+      { lowerBound: -3, upperBound: 3, samples: 2, maxSamples: 64 },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Noise);
+    expect(status.converged).toBeTruthy();
+    assertAlmostEqual(answer, 1, 0.1);
+    // The samples were increased along the way:
+    expect(status.evaluations).toBeGreaterThan(2 * status.iterations! + 8);
+  });
 });
@@ -1,10 +1,16 @@
-import { bracketMinimum } from "./bracket-minimum";
 import {
   GoldenSectionMinimizeStatus,
   goldenSectionMinimize,
 } from "./goldenSectionMinimize";
+import { CheckpointOptions } from "./checkpoint";
+import { Minimizer1DState, minimize1D } from "./minimize1D";
+import { Objective, ObjectiveOptions } from "./objective";
+import { ProgressOptions, iterate } from "./progress";
 
-export interface GoldenSectionMinimizeOptions {
+export interface GoldenSectionMinimizeOptions
+  extends ObjectiveOptions<number>,
+    ProgressOptions<number>,
+    CheckpointOptions<Minimizer1DState> {
   tolerance?: number;
   initialIncrement?: number;
   lowerBound?: number;
@@ -13,58 +19,23 @@ export interface GoldenSectionMinimizeOptions {
   guess?: number;
 }
 
-export const minimizeGoldenSection1D = async (
-  f: (v: number) => number | Promise<number>,
+export const minimizeGoldenSection1D = (
+  f: Objective<number>,
   options?: GoldenSectionMinimizeOptions,
   status?: GoldenSectionMinimizeStatus,
-) => {
-  options = options ?? {};
-  let x0;
-  const tolerance = options.tolerance === undefined ? 1e-8 : options.tolerance;
-  const dx =
-    options.initialIncrement === undefined ? 1 : options.initialIncrement;
-  const xMin =
-    options.lowerBound === undefined ? -Infinity : options.lowerBound;
-  const xMax = options.upperBound === undefined ? Infinity : options.upperBound;
-  const maxIterations =
-    options.maxIterations === undefined ? 100 : options.maxIterations;
-  const bounds: [number, number] = [0, 0];
+) => minimize1D(goldenSectionMinimize, f, options, status);
 
-  if (status) {
-    status.iterations = 0;
-    status.argmin = NaN;
-    status.minimum = Infinity;
-    status.converged = false;
-  }
-
-  if (isFinite(xMax) && isFinite(xMin)) {
-    bounds[0] = xMin;
-    bounds[1] = xMax;
-  } else {
-    // Construct the best guess we can:
-    if (options.guess === undefined) {
-      if (xMin > -Infinity) {
-        x0 = xMax < Infinity ? 0.5 * (xMin + xMax) : xMin;
-      } else {
-        x0 = xMax < Infinity ? xMax : 0;
-      }
-    } else {
-      x0 = options.guess;
-    }
-
-    await bracketMinimum(bounds, f, x0, dx, xMin, xMax);
-
-    if (isNaN(bounds[0]) || isNaN(bounds[1])) {
-      return undefined;
-    }
-  }
+export const maximizeGoldenSection1D = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) => minimizeGoldenSection1D(f, { ...options, sense: "max" }, status);
 
-  return goldenSectionMinimize(
-    f,
-    bounds[0],
-    bounds[1],
-    tolerance,
-    maxIterations,
-    status,
+export const goldenSectionSteps = (
+  f: Objective<number>,
+  options?: GoldenSectionMinimizeOptions,
+  status?: GoldenSectionMinimizeStatus,
+) =>
+  iterate<number, number | undefined>((onIteration) =>
+    minimizeGoldenSection1D(f, { ...options, onIteration }, status),
   );
-};
@@ -0,0 +1,38 @@
+import {
+  LBFGSOptions,
+  LBFGSStatus,
+  minimizeWithGradient,
+} from "./minimizeLBFGS";
+import { GradientObjective } from "./objective";
+import { iterate } from "./progress";
+
+export type GradientDescentOptions<T extends number[] = number[]> = Omit<
+  LBFGSOptions<T>,
+  "memory"
+>;
+
+// Same as `minimizeLBFGS`, but always steps along the negative (projected)
+// gradient. Mostly useful for comparison, L-BFGS converges much faster.
+export const minimizeGradientDescent = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: GradientDescentOptions<T>,
+  status?: LBFGSStatus,
+) => minimizeWithGradient(0, f, x0, options, status);
+
+export const maximizeGradientDescent = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: GradientDescentOptions<T>,
+  status?: LBFGSStatus,
+) => minimizeGradientDescent(f, x0, { ...options, sense: "max" }, status);
+
+export const gradientDescentSteps = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: GradientDescentOptions<T>,
+  status?: LBFGSStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeGradientDescent(f, x0, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,305 @@
+import { forwardGradient } from "./finiteDifferences";
+import {
+  maximizeGradientDescent,
+  minimizeGradientDescent,
+} from "./minimizeGradientDescent";
+import {
+  LBFGSStatus,
+  lbfgsSteps,
+  maximizeLBFGS,
+  minimizeLBFGS,
+} from "./minimizeLBFGS";
+import { PowellStatus, minimizePowell } from "./minimizePowell";
+import { StopReason } from "./optimizationStatus";
+import { assertAlmostEqual, assertVectorAlmostEqual } from "./testUtils";
+
+const rosenbrock = (x: number[]) => ({
+  value: 100 * (x[1] - x[0] * x[0]) ** 2 + (1 - x[0]) ** 2,
+  gradient: [
+    -400 * x[0] * (x[1] - x[0] * x[0]) - 2 * (1 - x[0]),
+    200 * (x[1] - x[0] * x[0]),
+  ],
+});
+
+describe("forwardGradient", () => {
+  const evaluateAll = (xs: number[][]) =>
+    Promise.resolve(xs.map((x) => x[0] * x[0] + 3 * x[1]));
+
+  test("approximates the gradient", async () => {
+    assertVectorAlmostEqual(
+      await forwardGradient(evaluateAll, [2, 1], 7),
+      [4, 3],
+      1e-5,
+    );
+  });
+
+  test("steps backwards at the upper bound", async () => {
+    const points: number[][] = [];
+    const g = await forwardGradient(
+      async (xs: number[][]) => {
+        points.push(...xs);
+        return evaluateAll(xs);
+      },
+      [2, 1],
+      7,
+      [
+        [0, 2],
+        [0, 5],
+      ],
+      1e-3,
+    );
+    expect(points[0][0]).toBeLessThan(2);
+    expect(points[1][1]).toBeGreaterThan(1);
+    assertVectorAlmostEqual(g, [4, 3], 1e-2);
+  });
+});
+
+describe("minimizeLBFGS", () => {
+  test("minimizes the Rosenbrock function with its gradient", async () => {
+    const status: LBFGSStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizeLBFGS(rosenbrock, [-1.2, 1], {}, status),
+      [1, 1],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+    expect(status.reason).toBe(StopReason.Tolerance);
+    expect(status.gradient).toHaveLength(2);
+    expect(status.points.length).toBe(status.iterations! + 1);
+  });
+
+  test("estimates the gradient of objectives returning numbers", async () => {
+    const status: LBFGSStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizeLBFGS(
+        (x) => (x[0] - 3) ** 2 + 2 * (x[1] + 1) ** 2 + x[0] * x[1],
+        [0, 0],
+        {},
+        status,
+      ),
+      [4, -2],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+  });
+
+  test("supports asynchronous objectives", async () => {
+    assertVectorAlmostEqual(
+      await minimizeLBFGS(
+        async (x) => {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          return rosenbrock(x);
+        },
+        [-1.2, 1],
+      ),
+      [1, 1],
+      1e-4,
+    );
+  });
+
+  test("evaluates finite differences in parallel", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await minimizeLBFGS(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return x.reduce((sum, xi) => sum + xi * xi, 0);
+      },
+      [1, 2, 3],
+      { parallel: true, maxIter: 3 },
+    );
+    expect(maxRunning).toBe(3);
+  });
+
+  test("stays within bounds", async () => {
+    const status: LBFGSStatus = { points: [] };
+    const points: number[][] = [];
+    assertVectorAlmostEqual(
+      await minimizeLBFGS(
+        (x) => {
+          points.push(x.slice());
+          return rosenbrock(x);
+        },
+        [0, 0],
+        {
+          bounds: [
+            [-2, 0.5],
+            [-2, 2],
+          ],
+        },
+        status,
+      ),
+      [0.5, 0.25],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+    for (const p of points) {
+      expect(p[0]).toBeLessThanOrEqual(0.5);
+    }
+  });
+
+  test("needs fewer evaluations than Powell's method", async () => {
+    const lbfgs: LBFGSStatus = { points: [] };
+    const powell: PowellStatus = { points: [] };
+    await minimizeLBFGS(rosenbrock, [-1.2, 1], {}, lbfgs);
+    await minimizePowell((x) => rosenbrock(x).value, [-1.2, 1], {}, powell);
+    expect(lbfgs.evaluations).toBeLessThan(powell.evaluations!);
+  });
+
+  test("maximizes", async () => {
+    const status: LBFGSStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await maximizeLBFGS(
+        (x) => ({
+          value: -((x[0] - 1) ** 2) - (x[1] + 2) ** 2,
+          gradient: [-2 * (x[0] - 1), -2 * (x[1] + 2)],
+        }),
+        [0, 0],
+        {},
+        status,
+      ),
+      [1, -2],
+    );
+    assertAlmostEqual(status.fx, 0);
+    expect(status.gradient![0]).toBeCloseTo(0);
+  });
+
+  test("reports the gradient of the maximized objective", async () => {
+    const f = (x: number[]) => ({
+      value: -((x[0] - 1) ** 2),
+      gradient: [-2 * (x[0] - 1)],
+    });
+    const status: LBFGSStatus = { points: [] };
+    await maximizeLBFGS(f, [-2], { maxIter: 0 }, status);
+    expect(status.fx).toBe(-9);
+    expect(status.gradient).toEqual([6]);
+    const descent: LBFGSStatus = { points: [] };
+    await maximizeGradientDescent(f, [-2], { maxIter: 0 }, descent);
+    expect(descent.gradient).toEqual([6]);
+  });
+
+  test("reports NaN", async () => {
+    const status: LBFGSStatus = { points: [] };
+    expect(await minimizeLBFGS(() => NaN, [0, 0], {}, status)).toBe(undefined);
+    expect(status.reason).toBe(StopReason.NaN);
+  });
+
+  test("stops after maxIter iterations", async () => {
+    const status: LBFGSStatus = { points: [] };
+    await minimizeLBFGS(rosenbrock, [-1.2, 1], { maxIter: 3 }, status);
+    expect(status.iterations).toBe(3);
+    expect(status.reason).toBe(StopReason.MaxIterations);
+    expect(status.converged).toBe(false);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: LBFGSStatus = { points: [] };
+    const x = await minimizeLBFGS(
+      rosenbrock,
+      [-1.2, 1],
+      { maxEvaluations: 10 },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.evaluations).toBe(10);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("can be aborted", async () => {
+    const controller = new AbortController();
+    const status: LBFGSStatus = { points: [] };
+    let evaluations = 0;
+    const x = await minimizeLBFGS(
+      (x) => {
+        if (++evaluations === 5) controller.abort();
+        return rosenbrock(x);
+      },
+      [-1.2, 1],
+      { signal: controller.signal },
+      status,
+    );
+    expect(x).toBeDefined();
+    expect(status.aborted).toBe(true);
+    expect(status.reason).toBe(StopReason.Aborted);
+  });
+
+  test("stops when the callback returns true", async () => {
+    const status: LBFGSStatus = { points: [] };
+    await minimizeLBFGS(
+      rosenbrock,
+      [-1.2, 1],
+      { onIteration: ({ iteration }) => iteration === 2 },
+      status,
+    );
+    expect(status.iterations).toBe(2);
+    expect(status.reason).toBe(StopReason.StoppedByCallback);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of lbfgsSteps(rosenbrock, [-1.2, 1])) {
+      steps.push(step);
+    }
+    expect(steps.length).toBeGreaterThan(5);
+    assertVectorAlmostEqual(steps[steps.length - 1].x, [1, 1], 1e-4);
+  });
+});
+
+describe("minimizeGradientDescent", () => {
+  const quadratic = (x: number[]) => ({
+    value: (x[0] - 1) ** 2 + 10 * (x[1] - 2) ** 2,
+    gradient: [2 * (x[0] - 1), 20 * (x[1] - 2)],
+  });
+
+  test("minimizes with Wolfe line searches", async () => {
+    const status: LBFGSStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizeGradientDescent(quadratic, [0, 0], {}, status),
+      [1, 2],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+  });
+
+  test("minimizes with Armijo line searches", async () => {
+    const status: LBFGSStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizeGradientDescent(
+        quadratic,
+        [0, 0],
+        { lineSearch: "armijo" },
+        status,
+      ),
+      [1, 2],
+      1e-4,
+    );
+    expect(status.converged).toBe(true);
+  });
+
+  test("lengthens Armijo steps again once the curvature drops", async () => {
+    // Steep beyond x = 1, where steps have to be short, and flat within:
+    const f = (x: number[]) => ({
+      value: 0.5 * x[0] ** 2 + 1000 * Math.max(0, x[0] - 1) ** 2,
+      gradient: [x[0] + 2000 * Math.max(0, x[0] - 1)],
+    });
+    const status: LBFGSStatus = { points: [] };
+    const x = await minimizeGradientDescent(
+      f,
+      [5],
+      { lineSearch: "armijo" },
+      status,
+    );
+    expect(Math.abs(x![0])).toBeLessThan(1e-6);
+    expect(status.converged).toBe(true);
+  });
+
+  test("is slower than L-BFGS", async () => {
+    const descent: LBFGSStatus = { points: [] };
+    const lbfgs: LBFGSStatus = { points: [] };
+    await minimizeGradientDescent(quadratic, [0, 0], {}, descent);
+    await minimizeLBFGS(quadratic, [0, 0], {}, lbfgs);
+    expect(lbfgs.iterations).toBeLessThan(descent.iterations!);
+  });
+});
@@ -0,0 +1,322 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds, constrain } from "./bounds";
+import { forwardGradient } from "./finiteDifferences";
+import { dot } from "./linearAlgebra";
+import { MemoizeStatus } from "./memoize";
+import {
+  GradientObjective,
+  ObjectiveOptions,
+  wrapObjective,
+} from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export interface LBFGSOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  maxIter?: number;
+  // Number of corrections kept to approximate the inverse Hessian:
+  memory?: number;
+  // Convergence requires either the relative decrease of the objective or
+  // the largest component of the projected gradient to fall below these
+  // tolerances:
+  tolerance?: number;
+  gradientTolerance?: number;
+  bounds?: Bounds;
+  // "armijo" only requires a sufficient decrease, "wolfe" also requires the
+  // slope to flatten, which keeps the Hessian approximation positive definite.
+  // Defaults to "wolfe".
+  lineSearch?: "armijo" | "wolfe";
+  // Step of the finite differences for objectives that don't return their
+  // gradient:
+  finiteDifferenceStep?: number;
+}
+
+export interface LBFGSStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  points: number[][];
+  gradient?: number[];
+}
+
+const MAX_LINE_SEARCH_STEPS = 50;
+
+// Projected quasi-Newton descent in the style of L-BFGS-B: variables at a
+// bound whose gradient points outwards are held fixed, and steps are
+// projected onto the bounds. Without memory, this is gradient descent.
+export const minimizeWithGradient = async <T extends number[]>(
+  memory: number,
+  f: GradientObjective<T>,
+  x0: T,
+  options?: LBFGSOptions<T>,
+  status?: LBFGSStatus,
+): Promise<T | undefined> => {
+  if (options?.sense === "max") {
+    const x = await maximizing(
+      (f, options) => minimizeWithGradient(memory, f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+    if (status) status.gradient = status.gradient?.map((g) => -g);
+    return x;
+  }
+
+  const n = x0.length;
+  const maxIter = options?.maxIter ?? 200 * Math.max(n, 1);
+  const tol = options?.tolerance ?? 1e-12;
+  const gTol = options?.gradientTolerance ?? 1e-8;
+  const bounds = options?.bounds ?? [];
+  const wolfe = (options?.lineSearch ?? "wolfe") === "wolfe";
+  // Sufficient decrease and curvature constants. Gradient descent gains from
+  // more exact line searches:
+  const c1 = 1e-4;
+  const c2 = memory > 0 ? 0.9 : 0.1;
+
+  if (status) {
+    status.points = [];
+    status.aborted = false;
+  }
+
+  // The value goes through caching, budgets etc. like that of any other
+  // objective, while a gradient returned along with it is put aside until it
+  // is picked up. Cached evaluations have no gradient and estimate it:
+  const gradients = new Map<string, number[]>();
+  const value = async (x: T, signal?: AbortSignal) => {
+    const result = await (signal ? f(x, signal) : f(x));
+    if (typeof result === "number") return result;
+    gradients.set(JSON.stringify(x), result.gradient);
+    return result.value;
+  };
+  const objective = wrapObjective(value, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const evaluateAll = batchEvaluator(evaluate, objective.parallel, signal);
+
+  // The gradient is estimated for objectives that don't return it:
+  const evaluateWithGradient = async (x: T): Promise<[number, number[]]> => {
+    const fx = await evaluate(x);
+    const key = JSON.stringify(x);
+    const returned = gradients.get(key);
+    gradients.delete(key);
+    const g =
+      returned ??
+      (isFinite(fx)
+        ? await forwardGradient(
+            evaluateAll,
+            x,
+            fx,
+            bounds,
+            options?.finiteDifferenceStep,
+          )
+        : x.map(() => NaN));
+    return [fx, g.slice()];
+  };
+
+  // Variables at a bound whose gradient points outwards:
+  const activeSet = (x: number[], g: number[]) =>
+    x.map((xi, i) => {
+      const b = bounds[i];
+      return !!b && ((xi <= b[0] && g[i] > 0) || (xi >= b[1] && g[i] < 0));
+    });
+
+  // The corrections of the inverse Hessian approximation:
+  let ss: number[][] = [];
+  let ys: number[][] = [];
+
+  // Two-loop recursion for the quasi-Newton direction on the free variables:
+  const direction = (g: number[], active: boolean[]) => {
+    const q = g.map((gi, i) => (active[i] ? 0 : gi));
+    const alphas: number[] = [];
+    for (let k = ss.length - 1; k >= 0; k--) {
+      alphas[k] = dot(ss[k], q) / dot(ys[k], ss[k]);
+      for (let i = 0; i < n; i++) q[i] -= alphas[k] * ys[k][i];
+    }
+    if (ss.length > 0) {
+      const k = ss.length - 1;
+      const gamma = dot(ss[k], ys[k]) / dot(ys[k], ys[k]);
+      for (let i = 0; i < n; i++) q[i] *= gamma;
+    }
+    for (let k = 0; k < ss.length; k++) {
+      const beta = dot(ys[k], q) / dot(ys[k], ss[k]);
+      for (let i = 0; i < n; i++) q[i] += (alphas[k] - beta) * ss[k][i];
+    }
+    return q.map((qi, i) => (active[i] ? 0 : -qi));
+  };
+
+  // Searches along the projected path x(alpha) = P(x + alpha d) for a step
+  // satisfying the Armijo or strong Wolfe conditions by bisection. Steps are
+  // shortened when the decrease is insufficient or the slope turned too steeply
+  // upwards, and lengthened while it is still too steep downwards:
+  const lineSearch = async (
+    x: T,
+    fx: number,
+    g: number[],
+    d: number[],
+    alpha: number,
+  ) => {
+    let lo = 0;
+    let hi = Infinity;
+    for (let k = 0; k < MAX_LINE_SEARCH_STEPS; k++) {
+      const xa = constrain(
+        x.map((xi, i) => xi + alpha * d[i]),
+        bounds,
+      ) as T;
+      const step = xa.map((xi, i) => xi - x[i]);
+      if (step.every((si) => si === 0)) return undefined;
+
+      const [fa, ga] = await evaluateWithGradient(xa);
+      const decrease = dot(g, step);
+      const slope = dot(ga, step);
+      if (!(fa <= fx + c1 * decrease) || (wolfe && slope > -c2 * decrease)) {
+        hi = alpha;
+      } else if (wolfe && slope < c2 * decrease) {
+        lo = alpha;
+      } else {
+        return { x: xa, fx: fa, g: ga, alpha };
+      }
+      alpha = hi < Infinity ? 0.5 * (lo + hi) : 2 * lo;
+    }
+    return undefined;
+  };
+
+  let x = constrain(x0.slice(), bounds) as T;
+  let fx = NaN;
+  let g: number[] = [];
+  let iter = 0;
+  let alpha = 1;
+
+  // Reports the outcome in the status object:
+  const stop = (reason: StopReason, x: T | undefined) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? fx : NaN;
+      status.gradient = x ? g.slice() : undefined;
+      status.iterations = iter;
+      status.converged =
+        reason === StopReason.Tolerance || reason === StopReason.NoMovement;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x;
+  };
+
+  try {
+    [fx, g] = await evaluateWithGradient(x);
+    if (status) status.points.push(x.slice());
+
+    for (;;) {
+      if (isNaN(fx) || g.some(isNaN)) {
+        return stop(StopReason.NaN, undefined);
+      }
+
+      const active = activeSet(x, g);
+      const pg = g.map((gi, i) => (active[i] ? 0 : gi));
+      const pgNorm = Math.sqrt(dot(pg, pg));
+      if (Math.max(...pg.map(Math.abs)) <= gTol) {
+        return stop(StopReason.Tolerance, x);
+      }
+      if (iter >= maxIter) {
+        return stop(StopReason.MaxIterations, x);
+      }
+      ++iter;
+
+      let d = direction(g, active);
+      if (!(dot(pg, d) < 0)) {
+        // Not a descent direction, so start over with steepest descent:
+        ss = [];
+        ys = [];
+        d = pg.map((gi) => -gi);
+      }
+
+      // The first step is scaled to unit length. L-BFGS then starts from the
+      // quasi-Newton step, while gradient descent starts from the last step
+      // with Wolfe line searches, which may lengthen it. Armijo line searches
+      // can only shorten it and start from the unit step instead:
+      if (ss.length > 0 || (memory === 0 && iter > 1 && !wolfe)) {
+        alpha = 1;
+      } else if (memory > 0 || iter === 1) {
+        alpha = Math.min(1, 1 / pgNorm);
+      }
+
+      const found = await lineSearch(x, fx, g, d, alpha);
+      if (!found) {
+        return stop(StopReason.LineSearchFailed, x);
+      }
+
+      const s = found.x.map((xi, i) => xi - x[i]);
+      const y = found.g.map((gi, i) => gi - g[i]);
+      // Only corrections with positive curvature keep the approximation
+      // positive definite:
+      if (memory > 0 && dot(s, y) > Number.EPSILON * dot(y, y)) {
+        ss.push(s);
+        ys.push(y);
+        if (ss.length > memory) {
+          ss.shift();
+          ys.shift();
+        }
+      }
+
+      const fPrevious = fx;
+      x = found.x;
+      fx = found.fx;
+      g = found.g;
+      alpha = found.alpha;
+      if (status) status.points.push(x.slice());
+
+      const stepSize = Math.sqrt(dot(s, s));
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: x.slice() as T,
+          fx,
+          iteration: iter,
+          stepSize,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback, x);
+      }
+
+      if (
+        fPrevious - fx <=
+        tol * Math.max(Math.abs(fPrevious), Math.abs(fx), 1)
+      ) {
+        return stop(StopReason.Tolerance, x);
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    return stop(StopReason.Aborted, isNaN(fx) ? undefined : x);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const minimizeLBFGS = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: LBFGSOptions<T>,
+  status?: LBFGSStatus,
+) => minimizeWithGradient(options?.memory ?? 10, f, x0, options, status);
+
+export const maximizeLBFGS = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: LBFGSOptions<T>,
+  status?: LBFGSStatus,
+) => minimizeLBFGS(f, x0, { ...options, sense: "max" }, status);
+
+export const lbfgsSteps = <T extends number[]>(
+  f: GradientObjective<T>,
+  x0: T,
+  options?: LBFGSOptions<T>,
+  status?: LBFGSStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeLBFGS(f, x0, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,182 @@
+import {
+  MixedStatus,
+  maximizeMixed,
+  minimizeMixed,
+  mixedSteps,
+} from "./minimizeMixed";
+import { StopReason } from "./optimizationStatus";
+import {
+  SearchSpace,
+  checkSearchSpace,
+  fromUnitCube,
+  inSearchSpace,
+  toUnitCube,
+} from "./searchSpace";
+
+const space: SearchSpace = [
+  { min: 1e-4, max: 1, scale: "log" },
+  { min: 1, max: 64, integer: true, scale: "log" },
+  { min: 0, max: 10, integer: true },
+  { values: ["sgd", "adam", "rmsprop"] },
+];
+
+// The minimum 0 is at [0.01, 8, 3, "adam"]:
+const loss = ([rate, threads, depth, optimizer]: unknown[]) => {
+  if (!inSearchSpace(space, [rate, threads, depth, optimizer])) {
+    throw new Error(
+      `Invalid values ${JSON.stringify([rate, threads, depth, optimizer])}`,
+    );
+  }
+  return (
+    Math.log10((rate as number) / 0.01) ** 2 +
+    Math.log2((threads as number) / 8) ** 2 +
+    ((depth as number) - 3) ** 2 +
+    (optimizer === "adam" ? 0 : 1)
+  );
+};
+
+describe("searchSpace", () => {
+  test("maps the unit cube to valid values", () => {
+    for (let k = 0; k <= 100; k++) {
+      const u = k / 100;
+      expect(inSearchSpace(space, fromUnitCube(space, [u, u, u, u]))).toBe(
+        true,
+      );
+    }
+    expect(fromUnitCube(space, [0, 0, 0, 0])).toEqual([1e-4, 1, 0, "sgd"]);
+    expect(fromUnitCube(space, [1, 1, 1, 1])).toEqual([1, 64, 10, "rmsprop"]);
+    expect(fromUnitCube(space, [0.5, 0.5, 0.5, 0.5])[0]).toBeCloseTo(0.01);
+    expect(fromUnitCube(space, [-1, 2, NaN, 0.5])).toEqual([
+      1e-4,
+      64,
+      0,
+      "adam",
+    ]);
+  });
+
+  test("gives every integer and category an equal share", () => {
+    const counts = new Map<unknown, number>();
+    for (let k = 0; k < 1100; k++) {
+      const [, , depth] = fromUnitCube(space, [0, 0, (k + 0.5) / 1100, 0]);
+      counts.set(depth, (counts.get(depth) ?? 0) + 1);
+    }
+    expect([...counts.values()]).toEqual(new Array(11).fill(100));
+  });
+
+  test("maps values back to the unit cube", () => {
+    const values = [0.01, 8, 3, "adam"];
+    const u = toUnitCube(space, values);
+    expect(u[0]).toBeCloseTo(0.5);
+    expect(u[2]).toBeCloseTo(3.5 / 11);
+    expect(u[3]).toBeCloseTo(0.5);
+    const [rate, ...rest] = fromUnitCube(space, u);
+    expect(rate).toBeCloseTo(0.01, 12);
+    expect(rest).toEqual(values.slice(1));
+    expect(toUnitCube(space, [2, 8.5, 3, "lbfgs"]).map(isNaN)).toEqual([
+      true,
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  test.each([
+    [{ values: [] }],
+    [{ min: 1, max: 0 }],
+    [{ min: 0, max: 1, scale: "log" as const }],
+    [{ min: 0.2, max: 0.8, integer: true }],
+    [{ min: 0, max: Infinity }],
+  ])("rejects %j", (variable) => {
+    expect(() => checkSearchSpace([variable])).toThrow();
+  });
+});
+
+describe("minimizeMixed", () => {
+  test("minimizes over mixed variables", async () => {
+    const status: MixedStatus = {};
+    const x = await minimizeMixed(loss, space, { seed: 1 }, status);
+    expect(x?.[0]).toBeCloseTo(0.01, 4);
+    expect(x?.slice(1)).toEqual([8, 3, "adam"]);
+    expect(status.x).toEqual(x);
+    expect(status.fx).toBeCloseTo(0, 6);
+    expect(status.converged).toBe(true);
+  });
+
+  test("evaluates every discrete point once", async () => {
+    const evaluated: string[] = [];
+    const status: MixedStatus = {};
+    const discrete: SearchSpace = [
+      { min: 0, max: 4, integer: true },
+      { values: [false, true] },
+    ];
+    const x = await minimizeMixed(
+      (x) => {
+        evaluated.push(JSON.stringify(x));
+        return ((x[0] as number) - 2) ** 2 + (x[1] ? 0 : 1);
+      },
+      discrete,
+      { seed: 2 },
+      status,
+    );
+    expect(x).toEqual([2, true]);
+    expect(new Set(evaluated).size).toBe(evaluated.length);
+    expect(evaluated.length).toBeLessThanOrEqual(10);
+    expect(status.evaluations).toBe(evaluated.length);
+  });
+
+  test("is reproducible with a seed", async () => {
+    const a: MixedStatus = {};
+    const b: MixedStatus = {};
+    await minimizeMixed(loss, space, { seed: 3, maxIter: 10 }, a);
+    await minimizeMixed(loss, space, { seed: 3, maxIter: 10 }, b);
+    expect(a.x).toEqual(b.x);
+    expect(a.evaluations).toBe(b.evaluations);
+  });
+
+  test("evaluates generations in batches", async () => {
+    const batches: number[] = [];
+    await minimizeMixed(loss, space, {
+      seed: 4,
+      maxIter: 2,
+      populationSize: 20,
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(loss);
+      },
+    });
+    expect(batches).toEqual([20, 20, 20]);
+  });
+
+  test("maximizes", async () => {
+    const status: MixedStatus = {};
+    const x = await maximizeMixed((x) => -loss(x), space, { seed: 5 }, status);
+    expect(x?.slice(1)).toEqual([8, 3, "adam"]);
+    expect(status.fx).toBeLessThanOrEqual(0);
+    expect(status.fx).toBeGreaterThan(-1e-6);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: MixedStatus = {};
+    const x = await minimizeMixed(
+      loss,
+      space,
+      { seed: 6, maxEvaluations: 100 },
+      status,
+    );
+    expect(inSearchSpace(space, x!)).toBe(true);
+    expect(status.evaluations).toBe(100);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("yields its steps", async () => {
+    const steps = [];
+    for await (const step of mixedSteps(loss, space, {
+      seed: 7,
+      maxIter: 5,
+    })) {
+      expect(inSearchSpace(space, step.x)).toBe(true);
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(5);
+  });
+});
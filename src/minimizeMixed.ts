@@ -0,0 +1,165 @@
+import { abortable } from "./abortable";
+import { MemoizeStatus } from "./memoize";
+import {
+  DifferentialEvolutionOptions,
+  DifferentialEvolutionStatus,
+  minimizeDifferentialEvolution,
+} from "./minimizeDifferentialEvolution";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import {
+  SearchSpace,
+  checkSearchSpace,
+  fromUnitCube,
+  toUnitCube,
+} from "./searchSpace";
+import { maximizing } from "./sense";
+
+export interface MixedOptions
+  extends Omit<ObjectiveOptions<unknown[]>, "memoize">,
+    ProgressOptions<unknown[]>,
+    Pick<
+      DifferentialEvolutionOptions,
+      | "strategy"
+      | "populationSize"
+      | "mutation"
+      | "crossover"
+      | "maxIter"
+      | "tolerance"
+      | "concurrency"
+      | "seed"
+      | "init"
+    > {
+  // Caches the values of the evaluated points, since integer and categorical
+  // variables make the search propose the same values repeatedly. Defaults
+  // to true.
+  memoize?: boolean;
+}
+
+export interface MixedStatus
+  extends MemoizeStatus,
+    OptimizationStatus<unknown[]> {}
+
+// Minimizes f over a search space of continuous, integer, log scaled and
+// categorical variables by differential evolution in the unit cube, whose
+// coordinates are mapped to values of the variables. f is only called with
+// valid values.
+export const minimizeMixed = async (
+  f: Objective<unknown[]>,
+  space: SearchSpace,
+  options?: MixedOptions,
+  status?: MixedStatus,
+): Promise<unknown[] | undefined> => {
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimizeMixed(f, space, options, status),
+      f,
+      options ?? {},
+      status,
+    );
+  }
+
+  checkSearchSpace(space);
+  const decode = (u: number[]) => fromUnitCube(space, u);
+  // Coordinates are snapped to the centers of the parts of integers and
+  // categories, so that equal values are evaluated and cached alike:
+  const snap = (u: number[]) => toUnitCube(space, decode(u));
+
+  const {
+    fBatch,
+    memoize,
+    onIteration,
+    strategy,
+    populationSize,
+    mutation,
+    crossover,
+    maxIter,
+    tolerance,
+    concurrency,
+    seed,
+    init,
+    ...objectiveOptions
+  } = options ?? {};
+  const objective = wrapObjective(
+    (u: number[], signal?: AbortSignal) =>
+      signal ? f(decode(u), signal) : f(decode(u)),
+    {
+      ...objectiveOptions,
+      fBatch:
+        fBatch &&
+        ((us, signal) =>
+          signal ? fBatch(us.map(decode), signal) : fBatch(us.map(decode))),
+      memoize: memoize ?? true,
+    },
+    status,
+  );
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const evaluateBatch = objective.fBatch;
+
+  const de: DifferentialEvolutionStatus = {};
+  try {
+    const u = await minimizeDifferentialEvolution(
+      (u: number[]) => evaluate(snap(u)),
+      {
+        strategy,
+        populationSize,
+        mutation,
+        crossover,
+        maxIter,
+        tolerance,
+        concurrency,
+        seed,
+        init,
+        bounds: space.map((): [number, number] => [0, 1]),
+        signal,
+        parallel: objectiveOptions.parallel,
+        fBatch:
+          evaluateBatch &&
+          ((us: number[][]) => evaluateBatch(us.map(snap), signal)),
+        onIteration:
+          onIteration &&
+          ((step) => onIteration({ ...step, x: decode(step.x) })),
+      },
+      de,
+    );
+
+    const reason =
+      de.reason === StopReason.Aborted
+        ? objective.stopReason() ?? de.reason
+        : de.reason;
+    if (status) {
+      status.x = u && decode(u);
+      status.fx = de.fx;
+      status.iterations = de.iterations;
+      status.converged = de.converged;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+      status.failures = status.failures?.map((failure) => ({
+        ...failure,
+        x: decode(failure.x as number[]),
+      }));
+    }
+    return u && decode(u);
+  } finally {
+    objective.dispose();
+  }
+};
+
+export const maximizeMixed = (
+  f: Objective<unknown[]>,
+  space: SearchSpace,
+  options?: MixedOptions,
+  status?: MixedStatus,
+) => minimizeMixed(f, space, { ...options, sense: "max" }, status);
+
+export const mixedSteps = (
+  f: Objective<unknown[]>,
+  space: SearchSpace,
+  options?: MixedOptions,
+  status?: MixedStatus,
+) =>
+  iterate<unknown[], unknown[] | undefined>((onIteration) =>
+    minimizeMixed(f, space, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,148 @@
+import {
+  NamedStatus,
+  maximizeNamed,
+  minimizeNamed,
+  namedSteps,
+} from "./minimizeNamed";
+import { StopReason } from "./optimizationStatus";
+import {
+  fromUnitVector,
+  fromVector,
+  schemaSearchSpace,
+  toUnitVector,
+  toVector,
+} from "./schema";
+
+const schema = {
+  lr: { min: 1e-4, max: 1, scale: "log" },
+  momentum: { min: 0, max: 0.99 },
+  layers: { min: 1, max: 8, integer: true },
+  optimizer: { values: ["sgd", "adam"] },
+} as const;
+
+interface Config {
+  lr: number;
+  momentum: number;
+  layers: number;
+  optimizer: "sgd" | "adam";
+}
+
+// The minimum 0 is at { lr: 0.01, momentum: 0.9, layers: 3, "adam" }:
+const loss = ({ lr, momentum, layers, optimizer }: Config) =>
+  Math.log10(lr / 0.01) ** 2 +
+  (momentum - 0.9) ** 2 +
+  (layers - 3) ** 2 +
+  (optimizer === "adam" ? 0 : 1);
+
+describe("schema", () => {
+  test("maps named values to vectors in the order of the keys", () => {
+    const values: Config = {
+      lr: 0.01,
+      momentum: 0.5,
+      layers: 2,
+      optimizer: "adam",
+    };
+    expect(toVector(schema, values)).toEqual([0.01, 0.5, 2, "adam"]);
+    expect(fromVector(schema, toVector(schema, values))).toEqual(values);
+    expect(schemaSearchSpace(schema)).toEqual([
+      schema.lr,
+      schema.momentum,
+      schema.layers,
+      schema.optimizer,
+    ]);
+  });
+
+  test("normalizes scales in the unit cube", () => {
+    const u = toUnitVector(schema, {
+      lr: 0.01,
+      momentum: 0.99,
+      layers: 1,
+      optimizer: "sgd",
+    });
+    expect(u[0]).toBeCloseTo(0.5);
+    expect(u[1]).toBeCloseTo(1);
+    expect(u[2]).toBeCloseTo(1 / 16);
+    expect(u[3]).toBeCloseTo(0.25);
+    const values = fromUnitVector(schema, [0.5, 0, 1, 0.75]);
+    expect(values.lr).toBeCloseTo(0.01, 12);
+    expect(values).toMatchObject({ momentum: 0, layers: 8, optimizer: "adam" });
+  });
+
+  test("rejects invalid variables", () => {
+    expect(() =>
+      schemaSearchSpace({ lr: { min: 0, max: 1, scale: "log" } }),
+    ).toThrow();
+  });
+});
+
+describe("minimizeNamed", () => {
+  test("minimizes over named variables", async () => {
+    const status: NamedStatus<typeof schema> = {};
+    const x = await minimizeNamed(loss, schema, { seed: 1 }, status);
+    expect(x?.lr).toBeCloseTo(0.01, 4);
+    expect(x?.momentum).toBeCloseTo(0.9, 4);
+    expect(x).toMatchObject({ layers: 3, optimizer: "adam" });
+    expect(status.x).toEqual(x);
+    expect(status.fx).toBeCloseTo(0, 6);
+    expect(status.converged).toBe(true);
+  });
+
+  test("passes named values to batches", async () => {
+    const batches: number[] = [];
+    await minimizeNamed(loss, schema, {
+      seed: 2,
+      maxIter: 2,
+      populationSize: 10,
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(loss);
+      },
+    });
+    expect(batches).toEqual([10, 10, 10]);
+  });
+
+  test("maximizes", async () => {
+    const status: NamedStatus<typeof schema> = {};
+    const x = await maximizeNamed((x) => -loss(x), schema, { seed: 3 }, status);
+    expect(x).toMatchObject({ layers: 3, optimizer: "adam" });
+    expect(status.fx).toBeLessThanOrEqual(0);
+    expect(status.fx).toBeGreaterThan(-1e-6);
+  });
+
+  test("names the failed evaluations", async () => {
+    const status: NamedStatus<typeof schema> = {};
+    await minimizeNamed(
+      (x) => {
+        if (x.optimizer === "sgd" && x.layers > 6) throw new Error("diverged");
+        return loss(x);
+      },
+      schema,
+      { seed: 4, maxIter: 5, onFailure: "penalty" },
+      status,
+    );
+    expect(status.failures?.length).toBeGreaterThan(0);
+    for (const failure of status.failures!) {
+      expect(failure.x).toMatchObject({ optimizer: "sgd" });
+      expect(failure.x.layers).toBeGreaterThan(6);
+    }
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: NamedStatus<typeof schema> = {};
+    await minimizeNamed(loss, schema, { seed: 5, maxEvaluations: 50 }, status);
+    expect(status.evaluations).toBe(50);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+  });
+
+  test("yields named steps", async () => {
+    const steps = [];
+    for await (const step of namedSteps(loss, schema, {
+      seed: 6,
+      maxIter: 5,
+    })) {
+      expect(Object.keys(step.x)).toEqual(Object.keys(schema));
+      steps.push(step);
+    }
+    expect(steps).toHaveLength(5);
+  });
+});
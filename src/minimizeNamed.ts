@@ -0,0 +1,78 @@
+import { BatchObjective } from "./batchEvaluator";
+import { MemoizeStatus } from "./memoize";
+import { MixedOptions, MixedStatus, minimizeMixed } from "./minimizeMixed";
+import { Objective } from "./objective";
+import { OptimizationStatus } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { Schema, SchemaValues, fromVector, schemaSearchSpace } from "./schema";
+
+export interface NamedOptions<S extends Schema>
+  extends Omit<MixedOptions, "fBatch" | "onIteration">,
+    ProgressOptions<SchemaValues<S>> {
+  fBatch?: BatchObjective<SchemaValues<S>>;
+}
+
+export interface NamedStatus<S extends Schema>
+  extends MemoizeStatus,
+    OptimizationStatus<SchemaValues<S>> {}
+
+// Minimizes f over named variables, which it receives as an object with the
+// keys of the schema, e.g. `{ lr: { min: 1e-4, max: 1, scale: "log" } }`
+// passes `{ lr: number }`. The values are searched by `minimizeMixed` as a
+// vector in the order of the keys, and the result is named alike.
+export const minimizeNamed = async <const S extends Schema>(
+  f: Objective<SchemaValues<S>>,
+  schema: S,
+  options?: NamedOptions<S>,
+  status?: NamedStatus<S>,
+): Promise<SchemaValues<S> | undefined> => {
+  const space = schemaSearchSpace(schema);
+  const named = (vector: unknown[]) => fromVector(schema, vector);
+
+  const { fBatch, onIteration, ...mixedOptions } = options ?? {};
+  // The status is filled with vectors during the search, which are named once
+  // it's done:
+  const mixed = status as MixedStatus | undefined;
+  const x = await minimizeMixed(
+    (vector, signal) => (signal ? f(named(vector), signal) : f(named(vector))),
+    space,
+    {
+      ...mixedOptions,
+      fBatch:
+        fBatch &&
+        ((vectors, signal) =>
+          signal
+            ? fBatch(vectors.map(named), signal)
+            : fBatch(vectors.map(named))),
+      onIteration:
+        onIteration && ((step) => onIteration({ ...step, x: named(step.x) })),
+    },
+    mixed,
+  );
+
+  if (status && mixed) {
+    status.x = mixed.x && named(mixed.x);
+    status.failures = mixed.failures?.map((failure) => ({
+      ...failure,
+      x: named(failure.x),
+    }));
+  }
+  return x && named(x);
+};
+
+export const maximizeNamed = <const S extends Schema>(
+  f: Objective<SchemaValues<S>>,
+  schema: S,
+  options?: NamedOptions<S>,
+  status?: NamedStatus<S>,
+) => minimizeNamed(f, schema, { ...options, sense: "max" }, status);
+
+export const namedSteps = <const S extends Schema>(
+  f: Objective<SchemaValues<S>>,
+  schema: S,
+  options?: NamedOptions<S>,
+  status?: NamedStatus<S>,
+) =>
+  iterate<SchemaValues<S>, SchemaValues<S> | undefined>((onIteration) =>
+    minimizeNamed(f, schema, { ...options, onIteration }, status),
+  );
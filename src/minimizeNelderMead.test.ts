@@ -0,0 +1,270 @@
+import {
+  NelderMeadStatus,
+  maximizeNelderMead,
+  minimizeNelderMead,
+  nelderMeadSteps,
+} from "./minimizeNelderMead";
+import { StopReason } from "./optimizationStatus";
+
+const assertAlmostEqual = (
+  computed: number | undefined,
+  expected: number,
+  tol?: number,
+) => {
+  expect(computed).toBeCloseTo(expected, -Math.log10(tol ?? 1e-6));
+};
+
+function assertVectorAlmostEqual(
+  computed: number[] | undefined,
+  expected: number[],
+  tol?: number,
+) {
+  expect(computed).toBeDefined();
+  // type trap
+  if (computed === undefined) throw new Error();
+
+  expect(computed.length).toEqual(expected.length);
+
+  for (let i = 0; i < computed.length; i++) {
+    assertAlmostEqual(computed[i], expected[i], tol);
+  }
+}
+
+const rosenbrock = (x: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < x.length - 1; i++) {
+    sum += 100 * Math.pow(x[i + 1] - x[i] * x[i], 2) + Math.pow(x[i] - 1, 2);
+  }
+  return sum;
+};
+
+describe("minimizeNelderMead", () => {
+  test("minimizes x^2 + y^2 - x * y starting at [-20, 25]", async () => {
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) => 1 + x[0] * x[0] + x[1] * x[1] - 1.9 * x[0] * x[1],
+        [-20, 25],
+      ),
+      [0, 0],
+      1e-3,
+    );
+  });
+
+  test("minimizes (x - 10)^2 + (y - 10)^2 to [1, 1] within [0, 1] x [0, 1]", async () => {
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) => Math.pow(x[0] - 10, 2) + Math.pow(x[1] - 10, 2),
+        [0.5, 0.5],
+        {
+          bounds: [
+            [0, 1],
+            [0, 1],
+          ],
+        },
+      ),
+      [1, 1],
+    );
+  });
+
+  test("minimizes (x - 10)^2 + (y + 10)^2 to [1, -10] for x within [0, 1]", async () => {
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) => Math.pow(x[0] - 10, 2) + Math.pow(x[1] + 10, 2),
+        [0.5, 0.5],
+        { bounds: [[0, 1], null] },
+      ),
+      [1, -10],
+      1e-3,
+    );
+  });
+
+  test("Rosenbrock function", async () => {
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(rosenbrock, [-1.2, 1]),
+      [1, 1],
+      1e-3,
+    );
+  });
+
+  test("Booth's function with invalid initial guess", async () => {
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) =>
+          Math.pow(x[0] + 2 * x[1] - 7, 2) + Math.pow(2 * x[0] + x[1] - 5, 2),
+        [100, 100],
+        {
+          bounds: [
+            [-10, 10],
+            [-10, 10],
+          ],
+        },
+      ),
+      [1, 3],
+      1e-3,
+    );
+  });
+
+  test("minimizes a cusp by restarting the collapsed simplex", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) => Math.sqrt(Math.abs(x[0] - 5)) + Math.abs(x[1] + 2),
+        [0, 0],
+        {},
+        status,
+      ),
+      [5, -2],
+      1e-3,
+    );
+    expect(status.restarts).toBeGreaterThan(0);
+  });
+
+  test("minimizes a 10D paraboloid with adaptive coefficients", async () => {
+    const n = 10;
+    const status: NelderMeadStatus = { simplices: [] };
+    assertVectorAlmostEqual(
+      await minimizeNelderMead(
+        (x) => x.reduce((sum, xi, i) => sum + (i + 1) * (xi - 1) ** 2, 0),
+        new Array<number>(n).fill(0),
+        { adaptive: true, maxIter: 10000 },
+        status,
+      ),
+      new Array<number>(n).fill(1),
+      1e-3,
+    );
+    expect(status.converged).toBeTruthy();
+  });
+
+  test("uses the standard coefficients in 1D", async () => {
+    const f = (x: number[]) => Math.abs(x[0] - 3) + (x[0] - 3) ** 2;
+    const standard: NelderMeadStatus = { simplices: [] };
+    const adaptive: NelderMeadStatus = { simplices: [] };
+    await minimizeNelderMead(f, [0], {}, standard);
+    const x = await minimizeNelderMead(f, [0], { adaptive: true }, adaptive);
+    assertVectorAlmostEqual(x, [3], 1e-6);
+    expect(adaptive.simplices).toEqual(standard.simplices);
+  });
+
+  test("reports the result and the simplex history", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    let evaluations = 0;
+    const result = await minimizeNelderMead(
+      (x) => {
+        ++evaluations;
+        return (x[0] - 2) ** 2 + (x[1] + 3) ** 2 + 1;
+      },
+      [0, 0],
+      {},
+      status,
+    );
+    expect(status.x).toEqual(result);
+    assertAlmostEqual(status.fx, 1);
+    expect(status.evaluations).toEqual(evaluations);
+    expect(status.converged).toBeTruthy();
+    expect(status.reason).toEqual(StopReason.Tolerance);
+    expect(status.simplices.length).toEqual(status.iterations! + 1);
+    expect(status.simplices[0]).toHaveLength(3);
+    expect(status.simplices[0]).toContainEqual([0, 0]);
+    expect(status.simplices[0]).toContainEqual([0.00025, 0]);
+    expect(status.simplices[0]).toContainEqual([0, 0.00025]);
+  });
+
+  test("reports running out of iterations", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    await minimizeNelderMead(rosenbrock, [-1.2, 1], { maxIter: 5 }, status);
+    expect(status.iterations).toEqual(5);
+    expect(status.reason).toEqual(StopReason.MaxIterations);
+    expect(status.converged).toBeFalsy();
+  });
+
+  test("reports NaN", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    expect(
+      await minimizeNelderMead(() => NaN, [0, 0], {}, status),
+    ).toBeUndefined();
+    expect(status.reason).toEqual(StopReason.NaN);
+  });
+
+  test("evaluates the simplex concurrently", async () => {
+    let pending = 0;
+    let maxPending = 0;
+    await minimizeNelderMead(
+      async (x) => {
+        maxPending = Math.max(maxPending, ++pending);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        --pending;
+        return x[0] ** 2 + x[1] ** 2 + x[2] ** 2;
+      },
+      [1, 1, 1],
+      { parallel: true, maxIter: 10 },
+    );
+    expect(maxPending).toEqual(4);
+  });
+
+  test("stops evaluating once aborted", async () => {
+    const controller = new AbortController();
+    const status: NelderMeadStatus = { simplices: [] };
+    let evaluations = 0;
+    const result = await minimizeNelderMead(
+      (x) => {
+        if (++evaluations === 20) controller.abort();
+        return (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+      },
+      [0, 0],
+      { signal: controller.signal },
+      status,
+    );
+    expect(evaluations).toEqual(20);
+    expect(status.reason).toEqual(StopReason.Aborted);
+    expect(result).toEqual(status.x);
+  });
+});
+
+describe("Minimize Nelder-Mead noise robustness", () => {
+  it.each([1, 0.1, 1e-3, 1e-5, 1e-8, 1e-10])(
+    "works with noise %p",
+    async (noiseLevel) => {
+      const result = (await minimizeNelderMead<[number, number]>(
+        (x) => {
+          return (x[0] - 2) ** 2 + (x[1] + 3) ** 2 + Math.random() * noiseLevel;
+        },
+        [0, 0],
+        {
+          tolerance: noiseLevel,
+          xTolerance: Math.sqrt(noiseLevel) / 10,
+          initialStep: 1,
+          bounds: [
+            [-10, 10],
+            [-10, 10],
+          ],
+        },
+      ))!;
+      expect(result[0]).toBeCloseTo(2, -Math.log10(noiseLevel) / 2 - 1);
+      expect(result[1]).toBeCloseTo(-3, -Math.log10(noiseLevel) / 2 - 1);
+    },
+  );
+
+  test("yields the iterations", async () => {
+    const steps = [];
+    for await (const step of nelderMeadSteps(
+      (x) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2,
+      [0, 0],
+    )) {
+      steps.push(step);
+    }
+    expect(steps[0].iteration).toEqual(0);
+    assertAlmostEqual(steps[steps.length - 1].fx, 0);
+  });
+
+  test("maximizes", async () => {
+    const status: NelderMeadStatus = { simplices: [] };
+    const result = await maximizeNelderMead(
+      (x) => 5 - (x[0] - 1) ** 2 - (x[1] + 2) ** 2,
+      [0, 0],
+      {},
+      status,
+    );
+    assertVectorAlmostEqual(result, [1, -2], 1e-3);
+    assertAlmostEqual(status.fx, 5);
+  });
+});
@@ -0,0 +1,304 @@
+import { AbortedError, abortable } from "./abortable";
+import { batchEvaluator } from "./batchEvaluator";
+import { Bounds, constrain } from "./bounds";
+import { MemoizeStatus } from "./memoize";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export interface NelderMeadOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T> {
+  maxIter?: number;
+  // Convergence requires the spread of the objective values as well as the
+  // size of the simplex to fall below these tolerances:
+  tolerance?: number;
+  xTolerance?: number;
+  bounds?: Bounds;
+  // Size of the initial simplex along each dimension. Defaults to 5% of the
+  // initial guess, or 0.00025 for coordinates that are zero:
+  initialStep?: number | number[];
+  // Use dimension dependent coefficients, which perform much better in higher
+  // dimensions (Gao & Han, 2012):
+  adaptive?: boolean;
+  // How often the simplex is rebuilt around the best point after it
+  // collapsed into a lower dimensional subspace:
+  maxRestarts?: number;
+}
+
+export interface NelderMeadStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
+  simplices: number[][][];
+  restarts?: number;
+}
+
+// The objective values are compared such that NaN is worse than anything:
+const worse = (a: number, b: number) => (isNaN(b) ? false : isNaN(a) || a > b);
+
+export const minimizeNelderMead = async <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: NelderMeadOptions<T>,
+  status?: NelderMeadStatus,
+): Promise<T | undefined> => {
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimizeNelderMead(f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  const n = x0.length;
+  const maxIter = options?.maxIter ?? 200 * Math.max(n, 1);
+  const tol = options?.tolerance ?? 1e-8;
+  const xTol = options?.xTolerance ?? 1e-8;
+  const bounds = options?.bounds ?? [];
+  // The adaptive coefficients equal the standard ones in 2D, and below that
+  // they would shrink the simplex onto a single point:
+  const adaptive = (options?.adaptive ?? false) && n > 2;
+  const maxRestarts = options?.maxRestarts ?? 3;
+
+  // Reflection, expansion, contraction and shrink coefficients:
+  const alpha = 1;
+  const gamma = adaptive ? 1 + 2 / n : 2;
+  const rho = adaptive ? 0.75 - 1 / (2 * n) : 0.5;
+  const sigma = adaptive ? 1 - 1 / n : 0.5;
+
+  if (status) {
+    status.simplices = [];
+    status.restarts = 0;
+    status.aborted = false;
+  }
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+  const evaluateAll = batchEvaluator(evaluate, objective.parallel, signal);
+
+  const step = (x: number[], i: number) => {
+    const initialStep = options?.initialStep;
+    const s = Array.isArray(initialStep) ? initialStep[i] : initialStep;
+    return s || (x[i] !== 0 ? 0.05 * Math.abs(x[i]) : 0.00025);
+  };
+
+  // Builds a simplex around x. If a bound prevents moving away from x along a
+  // dimension, the step is taken in the opposite direction instead:
+  const simplexAround = (x: number[]) => {
+    const vertices = [x.slice()];
+    for (let i = 0; i < n; i++) {
+      const v = x.slice();
+      v[i] += step(x, i);
+      constrain(v, bounds);
+      if (v[i] === x[i]) {
+        v[i] -= step(x, i);
+        constrain(v, bounds);
+      }
+      vertices.push(v);
+    }
+    return vertices;
+  };
+
+  // Measures how flat the simplex is by orthogonalizing its edges: if one of
+  // them lies (almost) in the span of the others, the simplex has collapsed
+  // and can no longer explore all dimensions.
+  const collapsed = (vertices: number[][]) => {
+    const basis: number[][] = [];
+    let maxLength = 0;
+    let minResidual = Infinity;
+    for (let i = 1; i <= n; i++) {
+      const e = vertices[i].map((v, j) => v - vertices[0][j]);
+      maxLength = Math.max(maxLength, Math.hypot(...e));
+      for (const b of basis) {
+        const dot = e.reduce((sum, ej, j) => sum + ej * b[j], 0);
+        for (let j = 0; j < n; j++) e[j] -= dot * b[j];
+      }
+      const residual = Math.hypot(...e);
+      minResidual = Math.min(minResidual, residual);
+      basis.push(residual > 0 ? e.map((ej) => ej / residual) : e);
+    }
+    return maxLength > 0 && minResidual / maxLength < 1e-5;
+  };
+
+  const p = constrain(x0.slice(), bounds);
+  let simplex = simplexAround(p);
+  let values: number[] = [];
+  let iter = 0;
+  let restarts = 0;
+
+  const sort = () => {
+    const order = simplex.map((_, i) => i);
+    order.sort((a, b) =>
+      worse(values[a], values[b]) ? 1 : worse(values[b], values[a]) ? -1 : 0,
+    );
+    simplex = order.map((i) => simplex[i]);
+    values = order.map((i) => values[i]);
+  };
+
+  // Reports the outcome in the status object:
+  const stop = (reason: StopReason, x: T | undefined) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? values[0] : NaN;
+      status.iterations = iter;
+      status.converged =
+        reason === StopReason.Tolerance ||
+        reason === StopReason.NoMovement ||
+        reason === StopReason.Noise;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x;
+  };
+
+  try {
+    values = await evaluateAll(simplex as T[]);
+
+    while (iter < maxIter) {
+      sort();
+      if (status) status.simplices.push(simplex.map((v) => v.slice()));
+
+      if (isNaN(values[0])) {
+        return stop(StopReason.NaN, undefined);
+      }
+
+      const best = simplex[0];
+      const size = Math.max(
+        0,
+        ...simplex.map((v) =>
+          Math.max(0, ...v.map((vj, j) => Math.abs(vj - best[j]))),
+        ),
+      );
+      const spread = Math.abs(values[n] - values[0]);
+
+      if (size <= xTol && spread <= tol) {
+        return stop(StopReason.Tolerance, best.slice() as T);
+      }
+
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: best.slice() as T,
+          fx: values[0],
+          iteration: iter,
+          stepSize: size,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback, best.slice() as T);
+      }
+
+      // A simplex that shrank to a point without converging in value, or that
+      // became flat, is rebuilt around its best point:
+      if (size <= xTol || collapsed(simplex)) {
+        if (restarts === maxRestarts) {
+          if (size <= xTol) {
+            return stop(StopReason.NoMovement, best.slice() as T);
+          }
+        } else {
+          ++restarts;
+          if (status) status.restarts = restarts;
+          const restarted = simplexAround(best);
+          const fs = await evaluateAll(restarted.slice(1) as T[]);
+          simplex = restarted;
+          values = [values[0], ...fs];
+          ++iter;
+          continue;
+        }
+      }
+
+      ++iter;
+
+      // Centroid of all but the worst vertex:
+      const worst = simplex[n];
+      const centroid: number[] = [];
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let i = 0; i < n; i++) sum += simplex[i][j];
+        centroid[j] = sum / n;
+      }
+      const towards = (x: number[], t: number) =>
+        constrain(
+          centroid.map((c, j) => c + t * (x[j] - c)),
+          bounds,
+        ) as T;
+
+      const xr = towards(worst, -alpha);
+      const fr = await evaluate(xr);
+
+      if (worse(values[0], fr)) {
+        // Try to expand further along the reflected direction:
+        const xe = towards(worst, -alpha * gamma);
+        const fe = await evaluate(xe);
+        if (worse(fr, fe)) {
+          simplex[n] = xe;
+          values[n] = fe;
+        } else {
+          simplex[n] = xr;
+          values[n] = fr;
+        }
+        continue;
+      }
+
+      if (worse(values[n - 1], fr)) {
+        simplex[n] = xr;
+        values[n] = fr;
+        continue;
+      }
+
+      // Contract, outside if the reflection improved on the worst vertex and
+      // inside otherwise:
+      const outside = worse(values[n], fr);
+      const xc = outside ? towards(worst, -alpha * rho) : towards(worst, rho);
+      const fc = await evaluate(xc);
+      if (outside ? !worse(fc, fr) : worse(values[n], fc)) {
+        simplex[n] = xc;
+        values[n] = fc;
+        continue;
+      }
+
+      // Shrink all vertices towards the best one:
+      const shrunk = simplex.slice(1).map((x) =>
+        constrain(
+          x.map((v, j) => best[j] + sigma * (v - best[j])),
+          bounds,
+        ),
+      );
+      const fs = await evaluateAll(shrunk as T[]);
+      simplex = [best, ...shrunk];
+      values = [values[0], ...fs];
+    }
+  } catch (e) {
+    if (!(e instanceof AbortedError)) throw e;
+    if (values.length === 0) return stop(StopReason.Aborted, undefined);
+    sort();
+    return stop(StopReason.Aborted, simplex[0].slice() as T);
+  } finally {
+    objective.dispose();
+  }
+
+  sort();
+  return stop(StopReason.MaxIterations, simplex[0].slice() as T);
+};
+
+export const maximizeNelderMead = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: NelderMeadOptions<T>,
+  status?: NelderMeadStatus,
+) => minimizeNelderMead(f, x0, { ...options, sense: "max" }, status);
+
+export const nelderMeadSteps = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: NelderMeadOptions<T>,
+  status?: NelderMeadStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizeNelderMead(f, x0, { ...options, onIteration }, status),
+  );
@@ -1,4 +1,13 @@
-import { minimizePowell } from "./minimizePowell";
+import { minimizeGoldenSection1D } from "./minimizeGoldenSection1D";
+import {
+  PowellState,
+  PowellStatus,
+  maximizePowell,
+  minimizePowell,
+  powellSteps,
+} from "./minimizePowell";
+import { StopReason } from "./optimizationStatus";
+import { IterationInfo } from "./progress";
 
 const assertAlmostEqual = (
   computed: number | undefined,
@@ -168,6 +177,29 @@ describe("minimizePowell standard tests", () => {
     );
   });
 
+  test("evaluates within the bounds along all directions", async () => {
+    const points: number[][] = [];
+    await minimizePowell(
+      (x) => {
+        points.push(x.slice());
+        return x[0] + x[1] + 0.1 * (x[0] - x[1]) ** 2;
+      },
+      [0.5, 2.5],
+      {
+        bounds: [
+          [0, 1],
+          [2, 3],
+        ],
+      },
+    );
+    for (const p of points) {
+      expect(p[0]).toBeGreaterThanOrEqual(0);
+      expect(p[0]).toBeLessThanOrEqual(1);
+      expect(p[1]).toBeGreaterThanOrEqual(2);
+      expect(p[1]).toBeLessThanOrEqual(3);
+    }
+  });
+
   test("Booth's function with invalid initial guess", async () => {
     assertVectorAlmostEqual(
       await minimizePowell(
@@ -463,3 +495,739 @@ describe("Minimize powell noise robustness", () => {
     },
   );
 });
+
+describe("Minimize powell cancellation", () => {
+  test("stops evaluating once aborted", async () => {
+    const controller = new AbortController();
+    const status: PowellStatus = { points: [] };
+    let evaluations = 0;
+    const result = await minimizePowell(
+      (x) => {
+        if (++evaluations === 50) controller.abort();
+        return (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+      },
+      [0, 0],
+      { signal: controller.signal },
+      status,
+    );
+    expect(evaluations).toEqual(50);
+    expect(status.aborted).toBeTruthy();
+    expect(result).toEqual(status.points[status.points.length - 1]);
+  });
+
+  test("returns the initial point when aborted before starting", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const status: PowellStatus = { points: [] };
+    const f = jest.fn((x: number[]) => x[0] ** 2);
+    expect(
+      await minimizePowell(f, [1, 2], { signal: controller.signal }, status),
+    ).toEqual([1, 2]);
+    expect(f).not.toHaveBeenCalled();
+    expect(status.aborted).toBeTruthy();
+  });
+});
+
+describe("Minimize powell batch evaluation", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+
+  test("evaluates line search points concurrently", async () => {
+    let pending = 0;
+    let maxPending = 0;
+    assertVectorAlmostEqual(
+      await minimizePowell(
+        async (x) => {
+          maxPending = Math.max(maxPending, ++pending);
+          const before = x.slice();
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          --pending;
+          // Every concurrent evaluation must receive its own point:
+          expect(x).toEqual(before);
+          return f(x);
+        },
+        [0, 0],
+        { parallel: true },
+      ),
+      [2, -3],
+    );
+    expect(maxPending).toBeGreaterThan(1);
+  });
+
+  test("evaluates line search points with a batched objective", async () => {
+    let batches = 0;
+    assertVectorAlmostEqual(
+      await minimizePowell(f, [0, 0], {
+        fBatch: (xs) => {
+          ++batches;
+          return xs.map(f);
+        },
+      }),
+      [2, -3],
+    );
+    expect(batches).toBeGreaterThan(0);
+  });
+});
+
+describe("Minimize powell memoization", () => {
+  test("reuses evaluations of revisited points", async () => {
+    const status: PowellStatus = { points: [] };
+    let evaluations = 0;
+    assertVectorAlmostEqual(
+      await minimizePowell(
+        (x) => {
+          ++evaluations;
+          return (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+        },
+        [0, 0],
+        { memoize: true },
+        status,
+      ),
+      [2, -3],
+    );
+    expect(status.cacheHits).toBeGreaterThan(0);
+    expect(status.cacheMisses).toEqual(evaluations);
+  });
+});
+
+describe("Minimize powell status", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2 + 1;
+
+  test("reports the result", async () => {
+    const status: PowellStatus = { points: [] };
+    let evaluations = 0;
+    const result = await minimizePowell(
+      (x) => {
+        ++evaluations;
+        return f(x);
+      },
+      [0, 0],
+      {},
+      status,
+    );
+    expect(status.x).toEqual(result);
+    assertAlmostEqual(status.fx, 1);
+    expect(status.evaluations).toEqual(evaluations);
+    expect(status.iterations).toBeGreaterThan(0);
+    expect(status.reason).toBeDefined();
+  });
+
+  test("reports not moving against the bounds", async () => {
+    const status: PowellStatus = { points: [] };
+    await minimizePowell(
+      (x) => (x[0] - 10) ** 2 + (x[1] - 10) ** 2,
+      [1, 1],
+      {
+        bounds: [
+          [0, 1],
+          [0, 1],
+        ],
+      },
+      status,
+    );
+    expect(status.x).toEqual([1, 1]);
+    expect(status.fx).toEqual(162);
+    expect(status.converged).toBeTruthy();
+    expect(status.reason).toEqual(StopReason.NoMovement);
+  });
+
+  test("reports running out of iterations", async () => {
+    const status: PowellStatus = { points: [] };
+    await minimizePowell(
+      (x) => 100 * (x[1] - x[0] * x[0]) ** 2 + (x[0] - 1) ** 2,
+      [-1, 1],
+      { maxIter: 2 },
+      status,
+    );
+    expect(status.iterations).toEqual(2);
+    expect(status.converged).toBeFalsy();
+    expect(status.reason).toEqual(StopReason.MaxIterations);
+  });
+
+  test("reports NaN", async () => {
+    const status: PowellStatus = { points: [] };
+    expect(await minimizePowell(() => NaN, [0, 0], {}, status)).toBeUndefined();
+    expect(status.converged).toBeFalsy();
+    expect(status.reason).toEqual(StopReason.NaN);
+  });
+
+  test("reports aborting", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const status: PowellStatus = { points: [] };
+    await minimizePowell(f, [0, 0], { signal: controller.signal }, status);
+    expect(status.reason).toEqual(StopReason.Aborted);
+    expect(status.aborted).toBeTruthy();
+  });
+});
+
+describe("Minimize powell with Brent line search", () => {
+  test("Rosenbrock function", async () => {
+    assertVectorAlmostEqual(
+      await minimizePowell(
+        (x) => 100.0 * Math.pow(x[1] - x[0] * x[0], 2) + Math.pow(x[0] - 1, 2),
+        [0.5, 0.5],
+        { lineSearch: "brent" },
+      ),
+      [1, 1],
+    );
+  });
+
+  test("needs fewer evaluations than with golden section line search", async () => {
+    const f = (x: number[]) =>
+      Math.pow(x[0] + 2 * x[1] - 7, 2) + Math.pow(2 * x[0] + x[1] - 5, 2);
+    const brentStatus: PowellStatus = { points: [] };
+    const goldenStatus: PowellStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizePowell(f, [0, 0], { lineSearch: "brent" }, brentStatus),
+      [1, 3],
+    );
+    await minimizePowell(f, [0, 0], {}, goldenStatus);
+    expect(brentStatus.evaluations).toBeLessThan(goldenStatus.evaluations!);
+  });
+});
+
+describe("Minimize powell with custom line search", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 300) ** 2;
+
+  test("uses a user supplied line search", async () => {
+    const lineSearch = jest.fn(minimizeGoldenSection1D);
+    assertVectorAlmostEqual(
+      await minimizePowell(f, [0, 0], { lineSearch }),
+      [2, -300],
+    );
+    expect(lineSearch).toHaveBeenCalled();
+    const [, options] = lineSearch.mock.calls[0];
+    expect(options?.initialIncrement).toEqual(0.1);
+    expect(options?.tolerance).toEqual(1e-9);
+  });
+
+  test("scales the initial increment per dimension", async () => {
+    const lineSearch = jest.fn(minimizeGoldenSection1D);
+    const status: PowellStatus = { points: [] };
+    const defaultStatus: PowellStatus = { points: [] };
+    assertVectorAlmostEqual(
+      await minimizePowell(
+        f,
+        [0, 0],
+        { lineSearch, initialStep: [1, 100] },
+        status,
+      ),
+      [2, -300],
+    );
+    expect(lineSearch.mock.calls[0][1]?.initialIncrement).toEqual(1);
+    expect(lineSearch.mock.calls[1][1]?.initialIncrement).toEqual(100);
+    await minimizePowell(f, [0, 0], {}, defaultStatus);
+    expect(status.evaluations).toBeLessThan(defaultStatus.evaluations!);
+  });
+});
+
+describe("Minimize powell progress", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+
+  test("reports every iteration", async () => {
+    const status: PowellStatus = { points: [] };
+    const iterations: number[] = [];
+    await minimizePowell(
+      f,
+      [0, 0],
+      {
+        onIteration: (step) => {
+          iterations.push(step.iteration);
+          expect(step.x).toEqual(status.points[status.points.length - 1]);
+          expect(step.fx).toBeCloseTo(f(step.x));
+        },
+      },
+      status,
+    );
+    expect(iterations).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19,
+    ]);
+  });
+
+  test("stops when the callback asks to", async () => {
+    const status: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      f,
+      [0, 0],
+      { onIteration: (step) => Promise.resolve(step.iteration === 2) },
+      status,
+    );
+    expect(status.iterations).toEqual(2);
+    expect(status.reason).toEqual(StopReason.StoppedByCallback);
+    expect(result).toEqual(status.x);
+  });
+
+  test("yields the iterations", async () => {
+    const steps: IterationInfo<number[]>[] = [];
+    for await (const step of powellSteps(f, [0, 0])) {
+      steps.push(step);
+    }
+    expect(steps.length).toEqual(19);
+    assertVectorAlmostEqual(steps[steps.length - 1].x, [2, -3]);
+  });
+
+  test("stops when the consumer stops iterating", async () => {
+    const status: PowellStatus = { points: [] };
+    for await (const step of powellSteps(f, [0, 0], {}, status)) {
+      if (step.iteration === 3) break;
+    }
+    expect(status.iterations).toEqual(3);
+    expect(status.reason).toEqual(StopReason.StoppedByCallback);
+  });
+
+  test("rethrows errors of the objective", async () => {
+    const steps = powellSteps(() => {
+      throw new Error("failed");
+    }, [0, 0]);
+    await expect(steps.next()).rejects.toThrow("failed");
+  });
+});
+
+describe("Minimize powell checkpoints", () => {
+  const f = (x: number[]) =>
+    (1 - x[0]) ** 2 + 10 * (x[1] - x[0] ** 2) ** 2 + 0.1 * x[2] ** 2;
+
+  test("resumes exactly where it left off", async () => {
+    const full: PowellStatus = { points: [] };
+    const expected = await minimizePowell(f, [-1, 2, 1], { maxIter: 30 }, full);
+
+    let saved: string | undefined;
+    const stopped: PowellStatus = { points: [] };
+    await minimizePowell(
+      f,
+      [-1, 2, 1],
+      {
+        maxIter: 30,
+        onCheckpoint: (state) => {
+          saved = JSON.stringify(state);
+        },
+        onIteration: (step) => step.iteration === 4,
+      },
+      stopped,
+    );
+    expect(stopped.reason).toEqual(StopReason.StoppedByCallback);
+
+    const state = JSON.parse(saved!) as PowellState;
+    expect(state.iteration).toEqual(4);
+    expect(state.x).toEqual(stopped.x);
+    expect(state.u.length).toEqual(3);
+    const resumed: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      f,
+      [-1, 2, 1],
+      { maxIter: 30, resume: state },
+      resumed,
+    );
+    expect(result).toEqual(expected);
+    expect(resumed.iterations).toEqual(full.iterations);
+    expect(resumed.reason).toEqual(full.reason);
+    expect(resumed.fx).toEqual(full.fx);
+    expect(resumed.points).toEqual(
+      full.points.slice(full.points.length - resumed.points.length),
+    );
+  });
+
+  test("restores the cached evaluations", async () => {
+    let state: PowellState | undefined;
+    await minimizePowell(f, [-1, 2, 1], {
+      memoize: true,
+      onCheckpoint: (s) => {
+        state = s;
+      },
+      onIteration: (step) => step.iteration === 2,
+    });
+    expect(state!.evaluations!.length).toBeGreaterThan(0);
+
+    const status: PowellStatus = { points: [] };
+    await minimizePowell(
+      f,
+      [-1, 2, 1],
+      { memoize: true, resume: state },
+      status,
+    );
+    expect(status.cacheHits).toBeGreaterThan(0);
+  });
+});
+
+describe("Maximize powell", () => {
+  const f = (x: number[]) => 5 - (x[0] - 1) ** 2 - (x[1] + 2) ** 2;
+
+  test("reports the maximum", async () => {
+    const status: PowellStatus = { points: [] };
+    const values: number[] = [];
+    const result = await maximizePowell(
+      f,
+      [0, 0],
+      {
+        onIteration: (step) => {
+          values.push(step.fx);
+        },
+      },
+      status,
+    );
+    assertVectorAlmostEqual(result, [1, -2]);
+    assertAlmostEqual(status.fx, 5);
+    expect(values.length).toBeGreaterThan(0);
+    expect(values.every((fx) => fx > 4)).toBeTruthy();
+  });
+
+  test("negates batched and cached evaluations", async () => {
+    const status: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      f,
+      [0, 0],
+      {
+        sense: "max",
+        fBatch: (xs) => xs.map(f),
+        memoize: { seed: [[[1, -2], 5]] },
+      },
+      status,
+    );
+    assertVectorAlmostEqual(result, [1, -2]);
+    assertAlmostEqual(status.fx, 5);
+    expect(status.cacheHits).toBeGreaterThan(0);
+  });
+});
+
+describe("Minimize powell budget", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2 + x[0] * x[1];
+
+  test.each([7, 25, 60, 150])(
+    "returns the best point within %d evaluations",
+    async (maxEvaluations) => {
+      const status: PowellStatus = { points: [] };
+      const values: number[] = [];
+      const result = await minimizePowell(
+        (x) => {
+          values.push(f(x));
+          return f(x);
+        },
+        [0, 0],
+        { maxEvaluations },
+        status,
+      );
+      expect(values.length).toEqual(maxEvaluations);
+      expect(status.reason).toEqual(StopReason.MaxEvaluations);
+      expect(status.aborted).toBeFalsy();
+      expect(status.fx).toEqual(Math.min(...values));
+      expect(f(result!)).toEqual(status.fx);
+    },
+  );
+
+  test("doesn't evaluate again to log the iterations", async () => {
+    // The budget runs out right when the first iteration is logged:
+    let evaluations = 0;
+    let logged: number | undefined;
+    const log = jest.spyOn(console, "log").mockImplementation(() => {
+      logged ??= evaluations;
+    });
+    const counted = (x: number[]) => {
+      evaluations++;
+      return f(x);
+    };
+    try {
+      const quiet: PowellStatus = { points: [] };
+      await minimizePowell(f, [0, 0], {}, quiet);
+      const verbose: PowellStatus = { points: [] };
+      await minimizePowell(counted, [0, 0], { verbose: true }, verbose);
+      expect(verbose.evaluations).toEqual(quiet.evaluations);
+      expect(logged).toBeDefined();
+
+      const status: PowellStatus = { points: [] };
+      const result = await minimizePowell(
+        f,
+        [0, 0],
+        { maxEvaluations: logged, verbose: true },
+        status,
+      );
+      expect(status.evaluations).toEqual(logged);
+      expect(f(result!)).toEqual(status.fx);
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  test("counts every point of a batch", async () => {
+    const status: PowellStatus = { points: [] };
+    const batches: number[] = [];
+    await minimizePowell(
+      (x) => {
+        batches.push(1);
+        return f(x);
+      },
+      [0, 0],
+      {
+        maxEvaluations: 40,
+        fBatch: (xs) => {
+          batches.push(xs.length);
+          return xs.map(f);
+        },
+      },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.MaxEvaluations);
+    expect(status.evaluations).toBeLessThanOrEqual(40);
+    expect(batches.reduce((a, b) => a + b, 0)).toEqual(status.evaluations);
+  });
+
+  test("distinguishes the budget from aborting", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const status: PowellStatus = { points: [] };
+    await minimizePowell(
+      f,
+      [0, 0],
+      { maxEvaluations: 10, timeoutMs: 1000, signal: controller.signal },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Aborted);
+    expect(status.aborted).toBeTruthy();
+  });
+
+  test("stops at the deadline", async () => {
+    const status: PowellStatus = { points: [] };
+    let evaluations = 0;
+    const result = await minimizePowell(
+      (x, signal) =>
+        new Promise<number>((resolve, reject) => {
+          evaluations++;
+          const timer = setTimeout(() => resolve(f(x)), 5);
+          signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(new Error("cancelled"));
+          });
+        }),
+      [0, 0],
+      { timeoutMs: 100 },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Timeout);
+    expect(evaluations).toBeLessThan(25);
+    expect(result).toEqual(status.x);
+  });
+});
+
+describe("Minimize powell failing evaluations", () => {
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+
+  test("retries rejected evaluations", async () => {
+    const attempts = new Map<string, number>();
+    const status: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      (x) => {
+        const key = JSON.stringify(x);
+        const n = (attempts.get(key) ?? 0) + 1;
+        attempts.set(key, n);
+        if (n < 3) return Promise.reject(new Error("timeout"));
+        return f(x);
+      },
+      [0, 0],
+      { retries: 2, retryDelayMs: 0, maxIter: 4 },
+      status,
+    );
+    expect(result).toEqual(await minimizePowell(f, [0, 0], { maxIter: 4 }));
+    expect(status.failures).toEqual([]);
+    // Every point failed twice before it was evaluated:
+    expect([...attempts.values()].every((n) => n >= 3)).toBeTruthy();
+    expect(status.evaluations).toEqual(
+      [...attempts.values()].reduce((a, b) => a + b, 0),
+    );
+  });
+
+  test("backs off between retries", async () => {
+    const times: number[] = [];
+    await expect(
+      minimizePowell(
+        () => {
+          times.push(Date.now());
+          throw new Error("timeout");
+        },
+        [0, 0],
+        { retries: 2, retryDelayMs: 20 },
+      ),
+    ).rejects.toThrow("timeout");
+    expect(times.length).toEqual(3);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(15);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  test("penalizes failures", async () => {
+    const status: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      (x) => {
+        if (x[0] > 3) throw new Error("out of range");
+        return x[1] > 5 ? NaN : f(x);
+      },
+      [0, 0],
+      { onFailure: "penalty", retries: 1, retryDelayMs: 0 },
+      status,
+    );
+    assertVectorAlmostEqual(result, [2, -3]);
+    expect(status.failures!.length).toBeGreaterThan(0);
+    for (const failure of status.failures!) {
+      if (failure.error) {
+        expect(failure.x[0]).toBeGreaterThan(3);
+        expect(failure.attempts).toEqual(2);
+        expect((failure.error as Error).message).toEqual("out of range");
+      } else {
+        expect(failure.x[1]).toBeGreaterThan(5);
+        expect(failure.attempts).toEqual(1);
+      }
+    }
+  });
+
+  test("stops with the best point on failures", async () => {
+    const status: PowellStatus = { points: [] };
+    const values: number[] = [];
+    let evaluations = 0;
+    const result = await minimizePowell(
+      (x) => {
+        if (++evaluations === 30) throw new Error("connection lost");
+        values.push(f(x));
+        return f(x);
+      },
+      [0, 0],
+      { onFailure: "abort" },
+      status,
+    );
+    expect(evaluations).toEqual(30);
+    expect(status.reason).toEqual(StopReason.EvaluationFailed);
+    expect(status.aborted).toBeFalsy();
+    expect(status.fx).toEqual(Math.min(...values));
+    expect(f(result!)).toEqual(status.fx);
+    expect(status.failures!.length).toEqual(1);
+  });
+
+  test("penalizes failing batches", async () => {
+    const status: PowellStatus = { points: [] };
+    let batches = 0;
+    const result = await minimizePowell(
+      f,
+      [0, 0],
+      {
+        onFailure: "penalty",
+        fBatch: (xs) => {
+          if (++batches === 1) throw new Error("overloaded");
+          return xs.map(f);
+        },
+      },
+      status,
+    );
+    assertVectorAlmostEqual(result, [2, -3]);
+    expect(status.failures!.length).toBeGreaterThan(1);
+  });
+
+  test("rejects by default", async () => {
+    await expect(
+      minimizePowell(() => Promise.reject(new Error("failed")), [0, 0]),
+    ).rejects.toThrow("failed");
+  });
+});
+
+describe("Minimize powell noisy objectives", () => {
+  // A reproducible, roughly normally distributed noise:
+  const noise = (seed: number) => {
+    let state = seed;
+    const uniform = () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state / 2147483648;
+    };
+    return () => uniform() + uniform() + uniform() - 1.5;
+  };
+  const f = (x: number[]) => (x[0] - 2) ** 2 + (x[1] + 3) ** 2;
+
+  test("evaluates every point several times concurrently", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const status: PowellStatus = { points: [] };
+    const points = new Set<string>();
+    await minimizePowell(
+      async (x) => {
+        points.add(JSON.stringify(x));
+        maxRunning = Math.max(maxRunning, ++running);
+        await Promise.resolve();
+        running--;
+        return f(x);
+      },
+      [0, 0],
+      { samples: 4, maxIter: 3 },
+      status,
+    );
+    expect(maxRunning).toEqual(4);
+    expect(status.evaluations! % 4).toEqual(0);
+  });
+
+  test("stops once improvements are within the noise", async () => {
+    const random = noise(1);
+    const status: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      (x) => f(x) + 0.1 * random(),
+      [0, 0],
+      { samples: 4, maxSamples: 32, maxIter: 100 },
+      status,
+    );
+    expect(status.reason).toEqual(StopReason.Noise);
+    expect(status.converged).toBeTruthy();
+    expect(result![0]).toBeCloseTo(2, 0);
+    expect(result![1]).toBeCloseTo(-3, 0);
+  });
+
+  test("stops right away when resumed from the final checkpoint", async () => {
+    const random = noise(1);
+    const full: PowellStatus = { points: [] };
+    let state: PowellState | undefined;
+    const expected = await minimizePowell(
+      (x) => f(x) + 0.1 * random(),
+      [0, 0],
+      {
+        samples: 4,
+        maxSamples: 32,
+        maxIter: 100,
+        onCheckpoint: (s) => {
+          state = s;
+        },
+      },
+      full,
+    );
+    expect(full.reason).toEqual(StopReason.Noise);
+    expect(state!.reason).toEqual(StopReason.Noise);
+
+    const resumed: PowellStatus = { points: [] };
+    const result = await minimizePowell(
+      (x) => f(x) + 0.1 * random(),
+      [0, 0],
+      { samples: 4, maxSamples: 32, maxIter: 100, resume: state },
+      resumed,
+    );
+    expect(resumed.evaluations).toEqual(0);
+    expect(result).toEqual(expected);
+    expect(resumed.fx).toEqual(full.fx);
+    expect(resumed.iterations).toEqual(full.iterations);
+    expect(resumed.reason).toEqual(full.reason);
+    expect(resumed.converged).toBeTruthy();
+  });
+
+  test("ignores outliers with the median", async () => {
+    let evaluations = 0;
+    const result = await minimizePowell(
+      (x) => (++evaluations % 5 === 0 ? 1e6 : f(x)),
+      [0, 0],
+      { samples: 5, aggregate: "median" },
+    );
+    assertVectorAlmostEqual(result, [2, -3]);
+  });
+
+  test("evaluates the samples of a batch together", async () => {
+    const batches: number[] = [];
+    await minimizePowell(f, [0, 0], {
+      samples: 3,
+      maxIter: 2,
+      fBatch: (xs) => {
+        batches.push(xs.length);
+        return xs.map(f);
+      },
+    });
+    expect(batches.length).toBeGreaterThan(0);
+    expect(batches.every((n) => n % 3 === 0)).toBeTruthy();
+  });
+});
@@ -1,40 +1,104 @@
+import { Bounds, constrain } from "./bounds";
+import { CheckpointOptions } from "./checkpoint";
+import { GoldenSectionMinimizeStatus } from "./goldenSectionMinimize";
+import { MemoizeStatus } from "./memoize";
+import { Minimizer1D } from "./minimize1D";
+import { minimizeBrent1D } from "./minimizeBrent1D";
 import { minimizeGoldenSection1D } from "./minimizeGoldenSection1D";
+import { Objective, ObjectiveOptions, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions, iterate } from "./progress";
+import { maximizing } from "./sense";
+
+export interface PowellState {
+  x: number[];
+  fx: number;
+  // The search directions:
+  u: number[][];
+  // The length of the last step:
+  perr: number;
+  iteration: number;
+  // Set if the search converged in this iteration, so that resuming from the
+  // state stops right away:
+  reason?: StopReason.Tolerance | StopReason.Noise;
+  // The cached evaluations if the objective is memoized:
+  evaluations?: [number[], number][];
+}
 
-interface PowellOptions {
+export interface PowellOptions<T extends number[] = number[]>
+  extends ObjectiveOptions<T>,
+    ProgressOptions<T>,
+    CheckpointOptions<PowellState> {
   maxIter?: number;
   maxIterLinearSearch?: number;
   lineTolerance?: number;
   tolerance?: number;
-  bounds?: ([number, number] | null)[];
+  bounds?: Bounds;
   verbose?: boolean;
+  lineSearch?: "goldenSection" | "brent" | Minimizer1D;
+  // Initial step of the line searches, either for all dimensions or for each
+  // dimension separately:
+  initialStep?: number | number[];
 }
 
-interface PowellStatus {
+export interface PowellStatus
+  extends MemoizeStatus,
+    OptimizationStatus<number[]> {
   points: number[][];
 }
 
 export const minimizePowell = async <T extends number[]>(
-  f: (v: T) => number | Promise<number>,
+  f: Objective<T>,
   x0: T,
-  options?: PowellOptions,
+  options?: PowellOptions<T>,
   status?: PowellStatus,
 ): Promise<T | undefined> => {
-  let i, j, iter, ui: number[], tmin, un, p0, sum, err, perr, du, tlimit;
+  if (options?.sense === "max") {
+    return maximizing(
+      (f, options) => minimizePowell(f, x0, options, status),
+      f,
+      options,
+      status,
+    );
+  }
+
+  let i, j, ui: number[], tmin, un, p0, sum, err, perr, du, tlimit, dx;
 
   const maxIter = options?.maxIter ?? 20;
   const bounds = options?.bounds ?? [];
   const verbose = options?.verbose ?? false;
+  const lineSearch =
+    typeof options?.lineSearch === "function"
+      ? options.lineSearch
+      : options?.lineSearch === "brent"
+      ? minimizeBrent1D
+      : minimizeGoldenSection1D;
   const maxIterLinearSearch = options?.maxIterLinearSearch ?? 100;
-  const dx = 0.1;
+  const initialStep = options?.initialStep ?? 0.1;
   const tol = options?.tolerance ?? 1e-8;
-  const tol1d = (options?.lineTolerance ?? tol) * dx;
+  const lineTol = options?.lineTolerance ?? tol;
+  const resume = options?.resume;
+
+  if (status) {
+    status.points = [];
+    status.aborted = false;
+  }
 
-  if (status) status.points = [];
+  // Line searches along different directions frequently revisit the current
+  // point, so caching evaluations (`memoize`) can save a lot of calls:
+  const objective = wrapObjective(
+    f,
+    options,
+    status,
+    resume?.evaluations as [T, number][] | undefined,
+  );
+  f = objective.f;
+  const { fBatch, signal, sampler } = objective;
 
   // Dimensionality:
   const n = x0.length;
   // Solution vector:
-  const p = x0.slice(0);
+  const p = resume ? resume.x.slice(0) : x0.slice(0);
 
   // Search directions:
   const u: number[][] = [];
@@ -42,25 +106,12 @@ export const minimizePowell = async <T extends number[]>(
   for (i = 0; i < n; i++) {
     u[i] = [];
     for (j = 0; j < n; j++) {
-      u[i][j] = i === j ? 1 : 0;
+      u[i][j] = resume ? resume.u[i][j] : i === j ? 1 : 0;
     }
   }
 
   // Bound the input:
-  function constrain(x: number[]) {
-    for (let i = 0; i < bounds.length; i++) {
-      const ibounds = bounds[i];
-      if (!ibounds) continue;
-      if (isFinite(ibounds[0])) {
-        x[i] = Math.max(ibounds[0], x[i]);
-      }
-      if (isFinite(ibounds[1])) {
-        x[i] = Math.min(ibounds[1], x[i]);
-      }
-    }
-  }
-
-  constrain(p);
+  constrain(p, bounds);
 
   if (status) status.points.push(p.slice());
 
@@ -73,19 +124,18 @@ export const minimizePowell = async <T extends number[]>(
           const jbounds = bounds[j];
           if (!jbounds) continue;
 
+          // Moving against a coordinate axis swaps the roles of its bounds:
           if (ui[j] !== 0) {
             if (jbounds[0] !== undefined && isFinite(jbounds[0])) {
-              lower = (ui[j] > 0 ? Math.max : Math.min)(
-                lower,
-                (jbounds[0] - p[j]) / ui[j],
-              );
+              const t = (jbounds[0] - p[j]) / ui[j];
+              if (ui[j] > 0) lower = Math.max(lower, t);
+              else upper = Math.min(upper, t);
             }
 
             if (jbounds[1] !== undefined && isFinite(jbounds[1])) {
-              upper = (ui[j] > 0 ? Math.min : Math.max)(
-                upper,
-                (jbounds[1] - p[j]) / ui[j],
-              );
+              const t = (jbounds[1] - p[j]) / ui[j];
+              if (ui[j] > 0) upper = Math.min(upper, t);
+              else lower = Math.max(lower, t);
             }
           }
         }
@@ -96,135 +146,296 @@ export const minimizePowell = async <T extends number[]>(
         return [-Infinity, Infinity];
       };
 
-  // A function to evaluate:
-  const pj: number[] = [];
-  const fi = function (t: number) {
+  // The initial increment along ui, such that moving along a coordinate axis
+  // starts with the initial step of that dimension:
+  const increment = (ui: number[]) => {
+    if (!Array.isArray(initialStep)) return initialStep;
+    let sum = 0;
+    for (let j = 0; j < n; j++) {
+      sum += (ui[j] / initialStep[j]) ** 2;
+    }
+    return 1 / Math.sqrt(sum);
+  };
+
+  // A function to evaluate. Every evaluation gets its own vector, as line
+  // search points may be evaluated concurrently:
+  const pointAt = function (t: number) {
+    const pj: number[] = [];
     for (let i = 0; i < n; i++) {
       pj[i] = p[i] + ui[i] * t;
     }
+    return pj as T;
+  };
+  const fi = function (t: number, signal?: AbortSignal) {
+    return signal ? f(pointAt(t), signal) : f(pointAt(t));
+  };
+  const fiBatch = fBatch
+    ? function (ts: number[], signal?: AbortSignal) {
+        return fBatch(ts.map(pointAt), signal);
+      }
+    : undefined;
+
+  let iter = resume?.iteration ?? 0;
+  // The objective value at p, as reported by the latest line search:
+  let fp = resume?.fx ?? NaN;
+  // The objective value at the start of the current iteration:
+  let fStart = NaN;
+  const lineStatus: GoldenSectionMinimizeStatus = {};
+
+  // Reports the outcome in the status object:
+  const stop = (reason: StopReason, x: T | undefined) => {
+    if (reason === StopReason.Aborted) {
+      reason = objective.stopReason() ?? reason;
+    }
+    if (status) {
+      status.x = x?.slice();
+      status.fx = x ? fp : NaN;
+      status.iterations = iter;
+      status.converged =
+        reason === StopReason.Tolerance ||
+        reason === StopReason.NoMovement ||
+        reason === StopReason.Noise;
+      status.reason = reason;
+      status.aborted = reason === StopReason.Aborted;
+    }
+    return x;
+  };
 
-    return f(pj as T);
+  // Stops with the best point seen, which is the best point t of the
+  // interrupted line search if that improved on the point accepted so far:
+  const abort = (t: number | undefined) => {
+    if (t !== undefined && isFinite(t) && !(lineStatus.fx! >= fp)) {
+      for (j = 0; j < n; j++) {
+        p[j] += t * ui[j];
+      }
+      constrain(p, bounds);
+      fp = lineStatus.fx!;
+      if (status) status.points.push(p.slice());
+    }
+    return stop(StopReason.Aborted, p as T);
   };
 
-  iter = 0;
-  perr = 0;
-  while (++iter < maxIter) {
-    // Reinitialize the search vectors:
-    if (iter % n === 0) {
-      for (i = 0; i < n; i++) {
-        u[i] = [];
-        for (j = 0; j < n; j++) {
-          u[i][j] = i === j ? 1 : 0;
+  // A line search that didn't move either couldn't tell the values apart
+  // because of noise, or found no better point:
+  const noMovement = () =>
+    lineStatus.reason === StopReason.Noise
+      ? StopReason.Noise
+      : StopReason.NoMovement;
+
+  // A line search without a result either ran into NaN or failed otherwise:
+  const lineSearchFailure = () =>
+    lineStatus.reason === StopReason.NaN
+      ? StopReason.NaN
+      : StopReason.LineSearchFailed;
+
+  try {
+    perr = resume?.perr ?? 0;
+    if (resume?.reason) return stop(resume.reason, p as T);
+    while (++iter < maxIter) {
+      // Reinitialize the search vectors:
+      if (iter % n === 0) {
+        for (i = 0; i < n; i++) {
+          u[i] = [];
+          for (j = 0; j < n; j++) {
+            u[i][j] = i === j ? 1 : 0;
+          }
         }
       }
-    }
 
-    // Store the starting point p0:
-    for (j = 0, p0 = []; j < n; j++) {
-      p0[j] = p[j];
-    }
+      // Store the starting point p0:
+      fStart = fp;
+      for (j = 0, p0 = []; j < n; j++) {
+        p0[j] = p[j];
+      }
 
-    // Minimize over each search direction u[i]:
-    for (i = 0; i < n; i++) {
-      ui = u[i];
-      // Compute bounds based on starting point p in the
-      // direction ui:
-      tlimit = bound(p, ui);
+      // Minimize over each search direction u[i]:
+      for (i = 0; i < n; i++) {
+        ui = u[i];
+        // Compute bounds based on starting point p in the
+        // direction ui:
+        tlimit = bound(p, ui);
+        dx = increment(ui);
+
+        tmin = await lineSearch(
+          fi,
+          {
+            lowerBound: tlimit[0],
+            upperBound: tlimit[1],
+            initialIncrement: dx,
+            tolerance: lineTol * dx,
+            maxIterations: maxIterLinearSearch,
+            signal,
+            parallel: options?.parallel,
+            fBatch: fiBatch,
+            sampler,
+          },
+          lineStatus,
+        );
+
+        if (signal?.aborted) {
+          return abort(tmin);
+        }
 
-      tmin = await minimizeGoldenSection1D(fi, {
-        lowerBound: tlimit[0],
-        upperBound: tlimit[1],
-        initialIncrement: dx,
-        tolerance: tol1d,
-        maxIterations: maxIterLinearSearch,
-      });
+        if (tmin === undefined) {
+          return stop(lineSearchFailure(), undefined);
+        }
 
-      if (tmin === undefined) {
-        return undefined;
-      }
+        fp = lineStatus.fx!;
 
-      if (tmin === 0) {
-        return p as T;
-      }
+        if (tmin === 0) {
+          return stop(noMovement(), p as T);
+        }
 
-      // Update the solution vector:
-      for (j = 0; j < n; j++) {
-        p[j] += tmin * ui[j];
+        // Update the solution vector:
+        for (j = 0; j < n; j++) {
+          p[j] += tmin * ui[j];
+        }
+
+        constrain(p, bounds);
+
+        if (status) status.points.push(p.slice());
       }
 
-      constrain(p);
+      // Throw out the first search direction:
+      u.shift();
 
-      if (status) status.points.push(p.slice());
-    }
+      // Construct a new search direction:
+      for (j = 0, un = [], sum = 0; j < n; j++) {
+        un[j] = p[j] - p0[j];
+        sum += un[j] * un[j];
+      }
+      // Normalize:
+      sum = Math.sqrt(sum);
+
+      if (sum > 0) {
+        for (j = 0; j < n; j++) {
+          un[j] /= sum;
+        }
+      } else {
+        // Exactly nothing moved, so it it appears we've converged. In particular,
+        // it's possible the solution is up against a boundary and simply can't
+        // move farther.
+        return stop(StopReason.NoMovement, p as T);
+      }
 
-    // Throw out the first search direction:
-    u.shift();
+      u.push(un);
+      // One more minimization, this time along the new direction:
+      ui = un;
 
-    // Construct a new search direction:
-    for (j = 0, un = [], sum = 0; j < n; j++) {
-      un[j] = p[j] - p0[j];
-      sum += un[j] * un[j];
-    }
-    // Normalize:
-    sum = Math.sqrt(sum);
+      tlimit = bound(p, ui);
+      dx = increment(ui);
+
+      tmin = await lineSearch(
+        fi,
+        {
+          lowerBound: tlimit[0],
+          upperBound: tlimit[1],
+          initialIncrement: dx,
+          tolerance: lineTol * dx,
+          maxIterations: maxIterLinearSearch,
+          signal,
+          parallel: options?.parallel,
+          fBatch: fiBatch,
+          sampler,
+        },
+        lineStatus,
+      );
 
-    if (sum > 0) {
-      for (j = 0; j < n; j++) {
-        un[j] /= sum;
+      if (signal?.aborted) {
+        return abort(tmin);
       }
-    } else {
-      // Exactly nothing moved, so it it appears we've converged. In particular,
-      // it's possible the solution is up against a boundary and simply can't
-      // move farther.
-      return p as T;
-    }
 
-    u.push(un);
-    // One more minimization, this time along the new direction:
-    ui = un;
+      if (tmin === undefined) {
+        return stop(lineSearchFailure(), undefined);
+      }
 
-    tlimit = bound(p, ui);
+      if (!isFinite(tmin)) {
+        return stop(StopReason.LineSearchFailed, p as T);
+      }
 
-    tmin = await minimizeGoldenSection1D(fi, {
-      lowerBound: tlimit[0],
-      upperBound: tlimit[1],
-      initialIncrement: dx,
-      tolerance: tol1d,
-      maxIterations: maxIterLinearSearch,
-    });
+      fp = lineStatus.fx!;
 
-    if (tmin === undefined) {
-      return undefined;
-    }
+      if (tmin === 0) {
+        return stop(noMovement(), p as T);
+      }
 
-    if (tmin === 0 || !isFinite(tmin)) {
-      return p as T;
-    }
+      err = 0;
+      for (j = 0; j < n; j++) {
+        du = tmin * ui[j];
+        err += du * du;
+        p[j] += du;
+      }
 
-    err = 0;
-    for (j = 0; j < n; j++) {
-      du = tmin * ui[j];
-      err += du * du;
-      p[j] += du;
-    }
+      constrain(p, bounds);
 
-    constrain(p);
+      if (status) status.points.push(p.slice());
 
-    if (status) status.points.push(p.slice());
+      err = Math.sqrt(err);
+
+      if (verbose)
+        console.log(
+          `Iteration ${iter}: ${err / perr} f(${JSON.stringify(p)}) = ${fp}`,
+        );
+
+      // An improvement within the noise can't be trusted, so more samples are
+      // taken. Once that isn't possible anymore, Powell's method has converged
+      // as far as the noise permits:
+      const converged =
+        sampler?.indistinguishable(fStart, fp) && !sampler.refine()
+          ? StopReason.Noise
+          : err / perr < tol
+          ? StopReason.Tolerance
+          : undefined;
+
+      // The state of the next iteration:
+      if (options?.onCheckpoint) {
+        await options.onCheckpoint({
+          x: p.slice(),
+          fx: fp,
+          u: u.map((ui) => ui.slice()),
+          perr: err,
+          iteration: iter,
+          reason: converged,
+          evaluations: objective.entries?.(),
+        });
+      }
 
-    err = Math.sqrt(err);
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: p.slice() as T,
+          fx: fp,
+          iteration: iter,
+          stepSize: err,
+        }))
+      ) {
+        return stop(StopReason.StoppedByCallback, p as T);
+      }
 
-    if (verbose)
-      console.log(
-        `Iteration ${iter}: ${err / perr} f(${JSON.stringify(p)}) = ${await f(
-          p as T,
-        )}`,
-      );
+      if (converged) return stop(converged, p as T);
 
-    if (err / perr < tol) return p as T;
+      perr = err;
+    }
 
-    perr = err;
+    return stop(StopReason.MaxIterations, p as T);
+  } finally {
+    objective.dispose();
   }
-
-  return p as T;
 };
+
+export const maximizePowell = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: PowellOptions<T>,
+  status?: PowellStatus,
+) => minimizePowell(f, x0, { ...options, sense: "max" }, status);
+
+export const powellSteps = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options?: PowellOptions<T>,
+  status?: PowellStatus,
+) =>
+  iterate<T, T | undefined>((onIteration) =>
+    minimizePowell(f, x0, { ...options, onIteration }, status),
+  );
@@ -0,0 +1,184 @@
+import { LBFGSStatus, minimizeLBFGS } from "./minimizeLBFGS";
+import { MultiStartStatus, multiStart } from "./multiStart";
+import { StopReason } from "./optimizationStatus";
+import { samplePoints } from "./samplePoints";
+
+const goldsteinPrice = (x: number[]) =>
+  (1 +
+    (x[0] + x[1] + 1) ** 2 *
+      (19 -
+        14 * x[0] +
+        3 * x[0] ** 2 -
+        14 * x[1] +
+        6 * x[0] * x[1] +
+        3 * x[1] ** 2)) *
+  (30 +
+    (2 * x[0] - 3 * x[1]) ** 2 *
+      (18 -
+        32 * x[0] +
+        12 * x[0] ** 2 +
+        48 * x[1] -
+        36 * x[0] * x[1] +
+        27 * x[1] ** 2));
+
+const bounds: [number, number][] = [
+  [-2, 2],
+  [-2, 2],
+];
+
+describe("samplePoints", () => {
+  test("starts the Sobol sequence after the origin", () => {
+    expect(
+      samplePoints("sobol", 4, [
+        [0, 1],
+        [0, 1],
+        [-1, 1],
+      ]),
+    ).toEqual([
+      [0.5, 0.5, 0],
+      [0.75, 0.25, -0.5],
+      [0.25, 0.75, 0.5],
+      [0.375, 0.375, 0.25],
+    ]);
+  });
+
+  test("puts one point into every stratum of a Latin hypercube", () => {
+    const points = samplePoints("latinHypercube", 10, bounds);
+    for (let d = 0; d < 2; d++) {
+      const strata = points.map((p) => Math.floor((p[d] + 2) / 0.4)).sort();
+      expect(strata).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    }
+  });
+
+  test("samples within the bounds", () => {
+    for (const method of ["uniform", "latinHypercube", "sobol"] as const) {
+      for (const p of samplePoints(method, 50, [
+        [1, 2],
+        [-3, -2],
+      ])) {
+        expect(p[0]).toBeGreaterThanOrEqual(1);
+        expect(p[0]).toBeLessThan(2);
+        expect(p[1]).toBeGreaterThanOrEqual(-3);
+        expect(p[1]).toBeLessThan(-2);
+      }
+    }
+  });
+});
+
+describe("multiStart", () => {
+  test("finds the global minimum of the Goldstein-Price function", async () => {
+    const status: MultiStartStatus = {};
+    const minima = await multiStart(
+      goldsteinPrice,
+      bounds,
+      { seed: 1 },
+      status,
+    );
+    expect(minima.length).toBeGreaterThan(1);
+    expect(minima[0].x[0]).toBeCloseTo(0, 4);
+    expect(minima[0].x[1]).toBeCloseTo(-1, 4);
+    expect(minima[0].fx).toBeCloseTo(3, 6);
+    for (let i = 1; i < minima.length; i++) {
+      expect(minima[i].fx).toBeGreaterThan(minima[i - 1].fx);
+    }
+    expect(minima.reduce((sum, m) => sum + m.hits, 0)).toBeLessThanOrEqual(20);
+    expect(status.iterations).toBe(20);
+    expect(status.converged).toBe(true);
+    expect(status.fx).toBeCloseTo(3, 6);
+  });
+
+  test("deduplicates minima", async () => {
+    const minima = await multiStart((x) => Math.cos(3 * x[0]), [[-1, 5]], {
+      starts: 30,
+      sampling: "sobol",
+    });
+    // The minima of cos(3 x) in [-1, 5] are at pi / 3 and pi, and at both
+    // bounds:
+    expect(minima.map((m) => m.x[0])).toEqual([
+      expect.closeTo(Math.PI, 4),
+      expect.closeTo(Math.PI / 3, 4),
+      -1,
+      5,
+    ]);
+    expect(minima.reduce((sum, m) => sum + m.hits, 0)).toBe(30);
+  });
+
+  test("is reproducible with a seed", async () => {
+    const a = await multiStart(goldsteinPrice, bounds, { seed: 7, starts: 5 });
+    const b = await multiStart(goldsteinPrice, bounds, { seed: 7, starts: 5 });
+    expect(a).toEqual(b);
+  });
+
+  test("limits the number of concurrent local optimizations", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await multiStart(
+      async (x) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        running--;
+        return goldsteinPrice(x);
+      },
+      bounds,
+      { starts: 6, concurrency: 3 },
+    );
+    expect(maxRunning).toBe(3);
+  });
+
+  test("uses other local optimizers", async () => {
+    const minima = await multiStart(goldsteinPrice, bounds, {
+      seed: 1,
+      localMinimizer: (f, x0, options, status) =>
+        minimizeLBFGS(f, x0, options, status as LBFGSStatus),
+    });
+    expect(minima[0].fx).toBeCloseTo(3, 6);
+  });
+
+  test("maximizes", async () => {
+    const status: MultiStartStatus = {};
+    const maxima = await multiStart(
+      (x) => Math.cos(3 * x[0]),
+      [[-1, 5]],
+      { sense: "max", sampling: "sobol", starts: 20 },
+      status,
+    );
+    expect(maxima[0].fx).toBeCloseTo(1);
+    expect(status.fx).toBeCloseTo(1);
+    expect(status.minima![0].fx).toBeCloseTo(1);
+  });
+
+  test("stops at the evaluation budget", async () => {
+    const status: MultiStartStatus = {};
+    await multiStart(
+      goldsteinPrice,
+      bounds,
+      { maxEvaluations: 200, concurrency: 2 },
+      status,
+    );
+    expect(status.evaluations).toBe(200);
+    expect(status.reason).toBe(StopReason.MaxEvaluations);
+    expect(status.starts).toBeLessThan(20);
+    expect(status.x).toBeDefined();
+  });
+
+  test("stops when the callback returns true", async () => {
+    const status: MultiStartStatus = {};
+    await multiStart(
+      goldsteinPrice,
+      bounds,
+      { onIteration: ({ iteration }) => iteration === 3 },
+      status,
+    );
+    expect(status.iterations).toBe(3);
+    expect(status.reason).toBe(StopReason.StoppedByCallback);
+  });
+
+  test("requires finite bounds", async () => {
+    await expect(
+      multiStart(goldsteinPrice, [
+        [-2, 2],
+        [-Infinity, 2],
+      ]),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,207 @@
+import { abortable } from "./abortable";
+import { Bounds } from "./bounds";
+import { BudgetOptions } from "./budget";
+import { NelderMeadStatus, minimizeNelderMead } from "./minimizeNelderMead";
+import { Objective, Sense, wrapObjective } from "./objective";
+import { OptimizationStatus, StopReason } from "./optimizationStatus";
+import { ProgressOptions } from "./progress";
+import { randomGenerator } from "./random";
+import { SamplingMethod, samplePoints } from "./samplePoints";
+import { maximizing } from "./sense";
+
+// Minimizes locally from a starting point within the bounds, e.g.
+// `minimizeNelderMead`, and reports whether it converged in the status:
+export type LocalMinimizer<T> = (
+  f: Objective<T>,
+  x0: T,
+  options: { signal?: AbortSignal; bounds: Bounds },
+  status: OptimizationStatus<number[]>,
+) => Promise<T | undefined>;
+
+export interface MultiStartOptions<T extends number[] = number[]>
+  extends BudgetOptions,
+    ProgressOptions<T> {
+  signal?: AbortSignal;
+  sense?: Sense;
+  // Number of local optimizations. Defaults to 10 per dimension.
+  starts?: number;
+  // How the starting points are sampled. Defaults to "latinHypercube".
+  sampling?: SamplingMethod;
+  // Makes random samples reproducible:
+  seed?: number;
+  // Maximum number of local optimizations running at the same time. Defaults
+  // to 1.
+  concurrency?: number;
+  // Defaults to `minimizeNelderMead` with an initial simplex spanning 5% of
+  // the bounds. Note that the line searches of `minimizePowell` span the whole
+  // bounds, so it doesn't stay local.
+  localMinimizer?: LocalMinimizer<T>;
+  // Minima closer than this fraction of the bounds in every dimension are
+  // considered the same. Defaults to 1e-4.
+  distinctTolerance?: number;
+}
+
+export interface LocalMinimum<T> {
+  x: T;
+  fx: number;
+  // How many local optimizations ended in this minimum:
+  hits: number;
+}
+
+export interface MultiStartStatus extends OptimizationStatus<number[]> {
+  // Number of local optimizations that were started:
+  starts?: number;
+  minima?: LocalMinimum<number[]>[];
+}
+
+const localNelderMead = <T extends number[]>(
+  f: Objective<T>,
+  x0: T,
+  options: { signal?: AbortSignal; bounds: Bounds },
+  status: OptimizationStatus<number[]>,
+) =>
+  minimizeNelderMead(
+    f,
+    x0,
+    {
+      ...options,
+      initialStep: options.bounds.map((b) => (b ? 0.05 * (b[1] - b[0]) : 1)),
+    },
+    status as NelderMeadStatus,
+  );
+
+// Finds distinct local minima within finite bounds by running local
+// optimizations from sampled starting points. The converged minima are
+// returned from best to worst, while `status.x` is the best point found by
+// any local optimization. The iterations are the finished local
+// optimizations.
+export const multiStart = async <T extends number[]>(
+  f: Objective<T>,
+  bounds: [number, number][],
+  options?: MultiStartOptions<T>,
+  status?: MultiStartStatus,
+): Promise<LocalMinimum<T>[]> => {
+  if (options?.sense === "max") {
+    const maxima = await maximizing(
+      (f, options) => multiStart(f, bounds, options, status),
+      f,
+      options,
+      status,
+    );
+    if (status)
+      status.minima = status.minima?.map((m) => ({ ...m, fx: -m.fx }));
+    return maxima.map((m) => ({ ...m, fx: -m.fx }));
+  }
+
+  if (!bounds.every(([lower, upper]) => isFinite(lower) && isFinite(upper))) {
+    throw new Error("multiStart requires finite bounds");
+  }
+  const n = bounds.length;
+  const starts = options?.starts ?? 10 * Math.max(n, 1);
+  const concurrency = Math.max(1, options?.concurrency ?? 1);
+  const local = options?.localMinimizer ?? localNelderMead;
+  const distinct = options?.distinctTolerance ?? 1e-4;
+
+  const objective = wrapObjective(f, options, status);
+  const signal = objective.signal;
+  const evaluate = abortable(objective.f, signal);
+
+  const points = samplePoints(
+    options?.sampling ?? "latinHypercube",
+    starts,
+    bounds,
+    randomGenerator(options?.seed),
+  ) as T[];
+
+  const minima: LocalMinimum<T>[] = [];
+  let best: { x: T; fx: number } | undefined;
+  let started = 0;
+  let finished = 0;
+  let stopped = false;
+
+  const same = (a: T, b: T) =>
+    a.every(
+      (ai, i) =>
+        Math.abs(ai - b[i]) <= distinct * (bounds[i][1] - bounds[i][0]),
+    );
+
+  const add = (x: T, fx: number) => {
+    const minimum = minima.find((m) => same(m.x, x));
+    if (!minimum) {
+      minima.push({ x, fx, hits: 1 });
+    } else {
+      minimum.hits++;
+      if (fx < minimum.fx) {
+        minimum.x = x;
+        minimum.fx = fx;
+      }
+    }
+  };
+
+  // Runs local optimizations until all starting points are taken:
+  const worker = async () => {
+    while (!stopped && !signal?.aborted && started < starts) {
+      const x0 = points[started++];
+      // The values of the points evaluated by this local optimization:
+      const evaluated = new Map<string, number>();
+      const localStatus: OptimizationStatus<number[]> = {};
+      const x = await local(
+        async (x: T) => {
+          const fx = await evaluate(x);
+          evaluated.set(JSON.stringify(x), fx);
+          return fx;
+        },
+        x0.slice() as T,
+        { signal, bounds },
+        localStatus,
+      );
+      finished++;
+      if (!x) continue;
+      const fx = evaluated.get(JSON.stringify(x)) ?? localStatus.fx;
+      if (fx === undefined || isNaN(fx)) continue;
+
+      if (!best || fx < best.fx) best = { x, fx };
+      if (localStatus.converged !== false) add(x, fx);
+
+      if (
+        options?.onIteration &&
+        (await options.onIteration({
+          x: best.x.slice() as T,
+          fx: best.fx,
+          iteration: finished,
+          stepSize: Math.sqrt(
+            x.reduce((sum, xi, i) => sum + (xi - x0[i]) ** 2, 0),
+          ),
+        }))
+      ) {
+        stopped = true;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } finally {
+    objective.dispose();
+  }
+
+  minima.sort((a, b) => a.fx - b.fx);
+  if (status) {
+    const reason = stopped
+      ? StopReason.StoppedByCallback
+      : signal?.aborted
+      ? objective.stopReason() ?? StopReason.Aborted
+      : minima.length > 0
+      ? StopReason.Tolerance
+      : StopReason.MaxIterations;
+    status.x = best?.x.slice();
+    status.fx = best?.fx ?? NaN;
+    status.iterations = finished;
+    status.starts = started;
+    status.minima = minima.map((m) => ({ ...m, x: m.x.slice() }));
+    status.converged = reason === StopReason.Tolerance;
+    status.reason = reason;
+    status.aborted = reason === StopReason.Aborted;
+  }
+  return minima;
+};
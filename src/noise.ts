@@ -0,0 +1,111 @@
+import { BatchObjective, checkBatchSize } from "./batchEvaluator";
+
+export interface NoiseOptions {
+  // How often every point is evaluated. The samples are evaluated
+  // concurrently and aggregated into a single value. At least two samples are
+  // needed to estimate the noise. Defaults to 1.
+  samples?: number;
+  aggregate?: "mean" | "median";
+  // Near convergence, when the optimizer can no longer tell values apart, the
+  // number of samples is doubled up to this maximum. Defaults to `samples`.
+  // Memoized evaluations are not resampled.
+  maxSamples?: number;
+  // Values that differ by less than this many standard errors are considered
+  // equal. Defaults to 2.
+  noiseTolerance?: number;
+  // An existing sampler whose objective is already aggregated, e.g. to share
+  // it between `minimizePowell` and its line searches:
+  sampler?: Sampler;
+}
+
+export interface Sampler {
+  samples: () => number;
+  // The estimated standard error of an aggregated value:
+  standardError: () => number;
+  // Whether the difference between two aggregated values is within noise:
+  indistinguishable: (a: number, b: number) => boolean;
+  // Takes more samples from now on. Returns false if the maximum number of
+  // samples is reached already.
+  refine: () => boolean;
+}
+
+// Turns the median absolute deviation into the standard deviation of
+// normally distributed values:
+const MAD_SCALE = 1.4826;
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const m = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[m] : 0.5 * (sorted[m - 1] + sorted[m]);
+};
+
+// Evaluates every point several times and aggregates the samples. The noise
+// is estimated from the pooled variance of all samples taken so far.
+export const sampling = <T>(options: NoiseOptions) => {
+  let samples = Math.max(1, options.samples ?? 1);
+  const maxSamples = Math.max(samples, options.maxSamples ?? samples);
+  const useMedian = options.aggregate === "median";
+  const tolerance = options.noiseTolerance ?? 2;
+
+  let squares = 0;
+  let degreesOfFreedom = 0;
+
+  // The variance of the samples is estimated robustly for the median, from
+  // their median absolute deviation:
+  const aggregate = (values: number[]) => {
+    const n = values.length;
+    const m = useMedian ? median(values) : mean(values);
+    if (n > 1 && values.every(isFinite)) {
+      squares += useMedian
+        ? (n - 1) *
+          (MAD_SCALE * median(values.map((v) => Math.abs(v - m)))) ** 2
+        : values.reduce((sum, v) => sum + (v - m) ** 2, 0);
+      degreesOfFreedom += n - 1;
+    }
+    return m;
+  };
+
+  const sampler: Sampler = {
+    samples: () => samples,
+    standardError: () => {
+      if (degreesOfFreedom === 0) return 0;
+      const se = Math.sqrt(squares / degreesOfFreedom / samples);
+      // The median of normally distributed samples is less efficient:
+      return useMedian ? Math.sqrt(Math.PI / 2) * se : se;
+    },
+    indistinguishable: (a, b) =>
+      Math.abs(a - b) <= tolerance * Math.SQRT2 * sampler.standardError(),
+    refine: () => {
+      if (samples === maxSamples) return false;
+      samples = Math.min(maxSamples, 2 * samples);
+      return true;
+    },
+  };
+
+  const sample =
+    (f: (v: T, signal?: AbortSignal) => number | Promise<number>) =>
+    async (x: T, signal?: AbortSignal) => {
+      if (samples === 1) return signal ? f(x, signal) : f(x);
+      const values = await Promise.all(
+        Array.from({ length: samples }, () => (signal ? f(x, signal) : f(x))),
+      );
+      return aggregate(values);
+    };
+
+  // All samples of all points are evaluated in a single batch:
+  const sampleBatch =
+    (fBatch: BatchObjective<T>): BatchObjective<T> =>
+    async (xs, signal) => {
+      if (samples === 1) return signal ? fBatch(xs, signal) : fBatch(xs);
+      const k = samples;
+      const all = xs.flatMap((x) => Array.from({ length: k }, () => x));
+      const values = await (signal ? fBatch(all, signal) : fBatch(all));
+      checkBatchSize(all, values);
+      return xs.map((_, i) => aggregate(values.slice(i * k, (i + 1) * k)));
+    };
+
+  return { sampler, sample, sampleBatch };
+};
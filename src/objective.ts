@@ -0,0 +1,124 @@
+import { BatchObjective } from "./batchEvaluator";
+import { BudgetOptions, limitEvaluations } from "./budget";
+import { FailureOptions, handleFailures } from "./failures";
+import { MemoizeOptions, MemoizeStatus, memoize } from "./memoize";
+import { NoiseOptions, sampling } from "./noise";
+import {
+  OptimizationStatus,
+  countBatchEvaluations,
+  countEvaluations,
+} from "./optimizationStatus";
+
+export type Objective<T> = (
+  v: T,
+  signal?: AbortSignal,
+) => number | Promise<number>;
+
+// Objectives of gradient based optimizers may return their gradient as well:
+export interface ValueWithGradient {
+  value: number;
+  gradient: number[];
+}
+
+export type GradientObjective<T> = (
+  v: T,
+  signal?: AbortSignal,
+) => number | ValueWithGradient | Promise<number | ValueWithGradient>;
+
+export type Sense = "min" | "max";
+
+// Options controlling how an optimizer evaluates its objective:
+export interface ObjectiveOptions<T>
+  extends BudgetOptions,
+    FailureOptions,
+    NoiseOptions {
+  signal?: AbortSignal;
+  parallel?: boolean;
+  fBatch?: BatchObjective<T>;
+  memoize?: boolean | MemoizeOptions<T>;
+  // Whether to minimize or maximize the objective. Defaults to "min".
+  sense?: Sense;
+}
+
+// Counts the evaluations of the objective and its batched counterpart, limits
+// them to the budget, handles failing evaluations, samples noisy objectives
+// and caches the values if requested, starting with the cached evaluations of
+// a resumed run. `parallel` is what the low-level routines expect: the batched
+// objective if there is one, and the parallel flag otherwise. The optimizer
+// has to use the returned signal, which is also aborted when the budget runs
+// out or an evaluation fails for good, and dispose of it when done.
+export const wrapObjective = <T extends number | number[]>(
+  f: Objective<T>,
+  options?: ObjectiveOptions<T>,
+  status?: OptimizationStatus<unknown> & MemoizeStatus,
+  evaluations?: [T, number][],
+) => {
+  let fBatch = options?.fBatch;
+  if (status) {
+    status.evaluations = 0;
+    f = countEvaluations(f, status);
+    fBatch = fBatch && countBatchEvaluations(fBatch, status);
+  }
+
+  const limits =
+    options?.maxEvaluations !== undefined ||
+    options?.timeoutMs !== undefined ||
+    options?.onFailure === "abort"
+      ? limitEvaluations(options, options.signal)
+      : undefined;
+  if (limits) {
+    f = limits.limit(f);
+    fBatch = fBatch && limits.limitBatch(fBatch);
+  }
+
+  // Retries are evaluations as well, so they are counted and limited:
+  if (status) status.failures = [];
+  const failures = handleFailures<T>(
+    options,
+    status,
+    (reason) => limits?.stop(reason),
+  );
+  f = failures.handle(f);
+  fBatch = fBatch && failures.handleBatch(fBatch);
+
+  // Every sample is an evaluation of its own:
+  const samples =
+    !options?.sampler &&
+    (options?.samples !== undefined || options?.maxSamples !== undefined)
+      ? sampling<T>(options)
+      : undefined;
+  if (samples) {
+    f = samples.sample(f);
+    fBatch = fBatch && samples.sampleBatch(fBatch);
+  }
+
+  const memoizeOptions = options?.memoize === true ? {} : options?.memoize;
+  const memoized = memoizeOptions
+    ? memoize(
+        f,
+        evaluations
+          ? {
+              ...memoizeOptions,
+              seed: [...(memoizeOptions.seed ?? []), ...evaluations],
+            }
+          : memoizeOptions,
+        status,
+      )
+    : undefined;
+  if (memoized) {
+    f = memoized;
+    fBatch = fBatch && memoized.batch(fBatch);
+  }
+
+  return {
+    f,
+    fBatch,
+    parallel: fBatch ?? options?.parallel,
+    entries: memoized?.entries,
+    sampler: options?.sampler ?? samples?.sampler,
+    signal: limits?.signal ?? options?.signal,
+    // Why the budget or a failure stopped the optimization, if they did:
+    stopReason: () => limits?.reason(),
+    dispose: () => limits?.dispose(),
+  };
+};
@@ -0,0 +1,51 @@
+import { BatchObjective } from "./batchEvaluator";
+import { EvaluationFailure } from "./failures";
+
+export enum StopReason {
+  Tolerance = "tolerance",
+  MaxIterations = "maxIterations",
+  NoMovement = "noMovement",
+  NaN = "nan",
+  LineSearchFailed = "lineSearchFailed",
+  Aborted = "aborted",
+  StoppedByCallback = "stoppedByCallback",
+  MaxEvaluations = "maxEvaluations",
+  Timeout = "timeout",
+  EvaluationFailed = "evaluationFailed",
+  Noise = "noise",
+}
+
+// The outcome of an optimization, reported by every optimizer through its
+// status object:
+export interface OptimizationStatus<T> {
+  x?: T;
+  fx?: number;
+  iterations?: number;
+  evaluations?: number;
+  converged?: boolean;
+  reason?: StopReason;
+  aborted?: boolean;
+  failures?: EvaluationFailure<T>[];
+}
+
+// Counts the calls to the objective in `status.evaluations`, which has to be
+// initialized by the caller:
+export const countEvaluations = <T>(
+  f: (v: T, signal?: AbortSignal) => number | Promise<number>,
+  status: OptimizationStatus<unknown>,
+) => {
+  return (v: T, signal?: AbortSignal) => {
+    status.evaluations!++;
+    return signal ? f(v, signal) : f(v);
+  };
+};
+
+export const countBatchEvaluations = <T>(
+  fBatch: BatchObjective<T>,
+  status: OptimizationStatus<unknown>,
+): BatchObjective<T> => {
+  return (xs, signal) => {
+    status.evaluations! += xs.length;
+    return signal ? fBatch(xs, signal) : fBatch(xs);
+  };
+};
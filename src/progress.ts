@@ -0,0 +1,73 @@
+export interface IterationInfo<T> {
+  x: T;
+  fx: number;
+  iteration: number;
+  // How far the optimizer moved or how large its search region still is,
+  // depending on the optimizer:
+  stepSize: number;
+}
+
+// Called after every iteration. Returning (or resolving to) `true` stops the
+// optimization with the current point.
+export type IterationCallback<T> = (
+  step: IterationInfo<T>,
+) => boolean | void | Promise<boolean | void>;
+
+export interface ProgressOptions<T> {
+  onIteration?: IterationCallback<T>;
+}
+
+// Turns an optimizer run that reports its progress through `onIteration` into
+// an async generator. The optimizer waits for each step to be consumed before
+// it continues, and is stopped when the consumer stops iterating. The
+// generator returns the result of the optimizer.
+export async function* iterate<T, R>(
+  run: (onIteration: IterationCallback<T>) => Promise<R>,
+): AsyncGenerator<IterationInfo<T>, R> {
+  let step: IterationInfo<T> | undefined;
+  let resume: ((stop: boolean) => void) | undefined;
+  let wake: (() => void) | undefined;
+  let done = false;
+
+  const notify = () => {
+    const w = wake;
+    wake = undefined;
+    w?.();
+  };
+
+  const running = run(
+    (s) =>
+      new Promise<boolean>((resolve) => {
+        step = s;
+        resume = resolve;
+        notify();
+      }),
+  ).finally(() => {
+    done = true;
+    notify();
+  });
+  // Errors are rethrown by awaiting `running` below:
+  running.catch(() => undefined);
+
+  try {
+    for (;;) {
+      if (!step && !done) {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      if (step) {
+        const s = step;
+        step = undefined;
+        yield s;
+        const r = resume!;
+        resume = undefined;
+        r(false);
+      } else if (done) {
+        return await running;
+      }
+    }
+  } finally {
+    // The consumer stopped early, so stop the optimizer as well:
+    resume?.(true);
+    await running;
+  }
+}
@@ -0,0 +1,18 @@
+// Returns uniformly distributed numbers in [0, 1). Given a seed, the numbers
+// are generated by mulberry32, so that runs can be reproduced. Otherwise,
+// `Math.random` is used.
+export const randomGenerator = (seed?: number) => {
+  if (seed === undefined) return Math.random;
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normally distributed numbers by the Box-Muller transform:
+export const normalGenerator = (random: () => number) => () =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
@@ -0,0 +1,116 @@
+export type SamplingMethod = "uniform" | "latinHypercube" | "sobol";
+
+// Degree, coefficients and initial direction numbers of the primitive
+// polynomials for the Sobol sequence beyond its first dimension (Joe & Kuo,
+// 2008):
+const SOBOL_DIRECTIONS: [number, number, number[]][] = [
+  [1, 0, [1]],
+  [2, 1, [1, 3]],
+  [3, 1, [1, 3, 1]],
+  [3, 2, [1, 1, 1]],
+  [4, 1, [1, 1, 3, 3]],
+  [4, 4, [1, 3, 5, 13]],
+  [5, 2, [1, 1, 5, 5, 17]],
+  [5, 4, [1, 1, 5, 5, 5]],
+  [5, 7, [1, 1, 7, 11, 19]],
+  [5, 11, [1, 1, 5, 1, 1]],
+  [5, 13, [1, 1, 1, 3, 11]],
+  [5, 14, [1, 3, 5, 5, 31]],
+  [6, 1, [1, 3, 3, 9, 7, 49]],
+  [6, 13, [1, 1, 1, 15, 21, 21]],
+  [6, 16, [1, 3, 1, 13, 27, 49]],
+  [6, 19, [1, 1, 1, 15, 7, 5]],
+  [6, 22, [1, 3, 1, 15, 13, 25]],
+  [6, 25, [1, 1, 5, 5, 19, 61]],
+  [7, 1, [1, 3, 7, 11, 23, 15, 103]],
+  [7, 4, [1, 3, 7, 13, 13, 15, 69]],
+];
+
+const BITS = 32;
+
+export const MAX_SOBOL_DIMENSIONS = SOBOL_DIRECTIONS.length + 1;
+
+// The direction numbers of a dimension, scaled to 32 bits:
+const directions = (d: number) => {
+  const v: number[] = [];
+  if (d === 0) {
+    for (let k = 0; k < BITS; k++) v.push((1 << (BITS - 1 - k)) >>> 0);
+    return v;
+  }
+  const [s, a, m] = SOBOL_DIRECTIONS[d - 1];
+  for (let k = 0; k < BITS; k++) {
+    if (k < s) {
+      v.push((m[k] << (BITS - 1 - k)) >>> 0);
+      continue;
+    }
+    let vk = v[k - s] ^ (v[k - s] >>> s);
+    for (let l = 1; l < s; l++) {
+      if ((a >>> (s - 1 - l)) & 1) vk ^= v[k - l];
+    }
+    v.push(vk >>> 0);
+  }
+  return v;
+};
+
+// The first points of the Sobol sequence in the unit cube, skipping the
+// origin:
+const sobol = (count: number, dimensions: number) => {
+  if (dimensions > MAX_SOBOL_DIMENSIONS) {
+    throw new Error(
+      `Sobol sequences are supported in up to ${MAX_SOBOL_DIMENSIONS} dimensions`,
+    );
+  }
+  const v = Array.from({ length: dimensions }, (_, d) => directions(d));
+  const x = new Array<number>(dimensions).fill(0);
+  const points: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    // Gray code order only changes the bit of the lowest zero of i:
+    let c = 0;
+    while ((i >>> c) & 1) c++;
+    for (let d = 0; d < dimensions; d++) x[d] = (x[d] ^ v[d][c]) >>> 0;
+    points.push(x.map((xd) => xd / 2 ** BITS));
+  }
+  return points;
+};
+
+// Every dimension is divided into `count` strata, each of which contains one
+// point:
+const latinHypercube = (
+  count: number,
+  dimensions: number,
+  random: () => number,
+) => {
+  const points = Array.from({ length: count }, () =>
+    new Array<number>(dimensions).fill(0),
+  );
+  for (let d = 0; d < dimensions; d++) {
+    const strata = Array.from({ length: count }, (_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [strata[i], strata[j]] = [strata[j], strata[i]];
+    }
+    strata.forEach((s, i) => (points[i][d] = (s + random()) / count));
+  }
+  return points;
+};
+
+// Samples points within finite bounds, e.g. as starting points of local
+// optimizations. Sobol and Latin hypercube samples cover the space more
+// evenly than independent uniform samples. Sobol samples are deterministic.
+export const samplePoints = (
+  method: SamplingMethod,
+  count: number,
+  bounds: [number, number][],
+  random: () => number = Math.random,
+) => {
+  const n = bounds.length;
+  const unit =
+    method === "sobol"
+      ? sobol(count, n)
+      : method === "latinHypercube"
+      ? latinHypercube(count, n, random)
+      : Array.from({ length: count }, () => bounds.map(() => random()));
+  return unit.map((u) =>
+    u.map((ui, i) => bounds[i][0] + ui * (bounds[i][1] - bounds[i][0])),
+  );
+};
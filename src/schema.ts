@@ -0,0 +1,47 @@
+import {
+  CategoricalVariable,
+  Variable,
+  checkSearchSpace,
+  fromUnitCube,
+  toUnitCube,
+} from "./searchSpace";
+
+// Named variables, e.g. `{ lr: { min: 1e-4, max: 1, scale: "log" } }`:
+export type Schema = Readonly<Record<string, Variable>>;
+
+// The values of the variables of a schema by name: one of the values of
+// categorical variables, and numbers otherwise.
+export type SchemaValues<S extends Schema> = {
+  -readonly [K in keyof S]: S[K] extends CategoricalVariable<infer V>
+    ? V
+    : number;
+};
+
+// The search space of the variables in the order of the schema's keys:
+export const schemaSearchSpace = (schema: Schema) => {
+  const space = Object.values(schema);
+  checkSearchSpace(space);
+  return space;
+};
+
+export const toVector = <S extends Schema>(
+  schema: S,
+  values: SchemaValues<S>,
+): unknown[] => Object.keys(schema).map((key) => values[key]);
+
+export const fromVector = <S extends Schema>(schema: S, vector: unknown[]) =>
+  Object.fromEntries(
+    Object.keys(schema).map((key, i) => [key, vector[i]]),
+  ) as SchemaValues<S>;
+
+// The coordinates of the values in the unit cube, in which log scaled
+// variables are uniform in their logarithm, and integers and categories take
+// equal parts. Invalid values map to NaN:
+export const toUnitVector = <S extends Schema>(
+  schema: S,
+  values: SchemaValues<S>,
+) => toUnitCube(Object.values(schema), toVector(schema, values));
+
+// The valid values at coordinates in the unit cube:
+export const fromUnitVector = <S extends Schema>(schema: S, u: number[]) =>
+  fromVector(schema, fromUnitCube(Object.values(schema), u));
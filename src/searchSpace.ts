@@ -0,0 +1,101 @@
+export type Scale = "linear" | "log";
+
+// A real number within [min, max], or an integer if `integer` is set. Log
+// scaled variables are searched uniformly in their logarithm and need a
+// positive minimum:
+export interface NumericVariable {
+  min: number;
+  max: number;
+  integer?: boolean;
+  scale?: Scale;
+}
+
+// One of the values, which are unordered:
+export interface CategoricalVariable<V = unknown> {
+  values: readonly V[];
+}
+
+export type Variable = NumericVariable | CategoricalVariable;
+
+export type SearchSpace = readonly Variable[];
+
+const isCategorical = (v: Variable): v is CategoricalVariable => "values" in v;
+
+// The interval a numeric variable is searched in, in its scale. Integers get
+// equal shares of it by extending the range by half on both sides:
+const interval = (v: NumericVariable): [number, number] => {
+  const [lower, upper] = v.integer
+    ? [Math.ceil(v.min) - 0.5, Math.floor(v.max) + 0.5]
+    : [v.min, v.max];
+  return v.scale === "log"
+    ? [Math.log(lower), Math.log(upper)]
+    : [lower, upper];
+};
+
+// Throws if a variable can't take any value:
+export const checkSearchSpace = (space: SearchSpace) => {
+  space.forEach((v, i) => {
+    if (isCategorical(v)) {
+      if (v.values.length === 0) {
+        throw new Error(`Variable ${i} has no values`);
+      }
+    } else if (!(v.min <= v.max) || !isFinite(v.min) || !isFinite(v.max)) {
+      throw new Error(`Variable ${i} needs finite bounds with min <= max`);
+    } else if (v.scale === "log" && !(v.min > 0)) {
+      throw new Error(`Log scaled variable ${i} needs a positive min`);
+    } else if (v.integer && Math.ceil(v.min) > Math.floor(v.max)) {
+      throw new Error(`Integer variable ${i} has no integer within bounds`);
+    }
+  });
+};
+
+// Maps coordinates in the unit cube to valid values of the variables.
+// Coordinates outside the cube are clamped, and every integer and category
+// takes an equal part of [0, 1]:
+export const fromUnitCube = (space: SearchSpace, u: number[]) =>
+  space.map((v, i) => {
+    const ui = Math.min(Math.max(u[i] || 0, 0), 1);
+    if (isCategorical(v)) {
+      return v.values[
+        Math.min(Math.floor(ui * v.values.length), v.values.length - 1)
+      ];
+    }
+    const [lower, upper] = interval(v);
+    let x = lower + ui * (upper - lower);
+    if (v.scale === "log") x = Math.exp(x);
+    if (v.integer) {
+      return Math.min(
+        Math.max(Math.round(x), Math.ceil(v.min)),
+        Math.floor(v.max),
+      );
+    }
+    // The bounds are hit exactly despite rounding errors of the log scale:
+    return ui === 0
+      ? v.min
+      : ui === 1
+      ? v.max
+      : Math.min(Math.max(x, v.min), v.max);
+  });
+
+// The coordinates in the unit cube of the values, at the centers of the parts
+// of integers and categories. Values outside the search space map to NaN:
+export const toUnitCube = (space: SearchSpace, values: readonly unknown[]) =>
+  space.map((v, i) => {
+    const value = values[i];
+    if (isCategorical(v)) {
+      const index = v.values.indexOf(value);
+      return index < 0 ? NaN : (index + 0.5) / v.values.length;
+    }
+    if (typeof value !== "number" || !(value >= v.min && value <= v.max)) {
+      return NaN;
+    }
+    if (v.integer && !Number.isInteger(value)) return NaN;
+    const [lower, upper] = interval(v);
+    const x = v.scale === "log" ? Math.log(value) : value;
+    return upper > lower ? (x - lower) / (upper - lower) : 0.5;
+  });
+
+// Whether the values are valid for the variables:
+export const inSearchSpace = (space: SearchSpace, values: readonly unknown[]) =>
+  values.length === space.length &&
+  toUnitCube(space, values).every((u) => !isNaN(u));
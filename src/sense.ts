@@ -0,0 +1,61 @@
+import { ObjectiveOptions, ValueWithGradient } from "./objective";
+import { OptimizationStatus } from "./optimizationStatus";
+import { ProgressOptions } from "./progress";
+
+const negate = async <V extends number | ValueWithGradient>(
+  fx: V | Promise<V>,
+) => {
+  const v = await fx;
+  return (
+    typeof v === "number"
+      ? -v
+      : { value: -v.value, gradient: v.gradient.map((g) => -g) }
+  ) as V;
+};
+
+// Maximizes by minimizing the negated objective. Every value the caller gets
+// to see, in the status as well as in the progress callbacks, is reported
+// with the sign of the original objective.
+export const maximizing = async <
+  T,
+  V extends number | ValueWithGradient,
+  O extends ObjectiveOptions<T> & ProgressOptions<T>,
+  R,
+>(
+  minimize: (
+    f: (v: T, signal?: AbortSignal) => V | Promise<V>,
+    options: O,
+  ) => Promise<R>,
+  f: (v: T, signal?: AbortSignal) => V | Promise<V>,
+  options: O,
+  status?: OptimizationStatus<unknown> & { minimum?: number },
+) => {
+  const { fBatch, memoize, onIteration } = options;
+  const result = await minimize(
+    (x, signal) => negate(signal ? f(x, signal) : f(x)),
+    {
+      ...options,
+      sense: "min",
+      fBatch:
+        fBatch &&
+        (async (xs: T[], signal?: AbortSignal) =>
+          (await (signal ? fBatch(xs, signal) : fBatch(xs))).map((fx) => -fx)),
+      // Seeded evaluations are values of the original objective as well:
+      memoize:
+        typeof memoize === "object" && memoize.seed
+          ? {
+              ...memoize,
+              seed: [...memoize.seed].map(([x, fx]) => [x, -fx] as [T, number]),
+            }
+          : memoize,
+      onIteration:
+        onIteration && ((step) => onIteration({ ...step, fx: -step.fx })),
+    },
+  );
+
+  if (status) {
+    if (status.fx !== undefined) status.fx = -status.fx;
+    if (status.minimum !== undefined) status.minimum = -status.minimum;
+  }
+  return result;
+};
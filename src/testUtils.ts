@@ -0,0 +1,25 @@
+// Assertions shared by the tests of the optimizers:
+
+export const assertAlmostEqual = (
+  computed: number | undefined,
+  expected: number,
+  tol?: number,
+) => {
+  expect(computed).toBeCloseTo(expected, -Math.log10(tol ?? 1e-6));
+};
+
+export const assertVectorAlmostEqual = (
+  computed: number[] | undefined,
+  expected: number[],
+  tol?: number,
+) => {
+  expect(computed).toBeDefined();
+  // type trap
+  if (computed === undefined) throw new Error();
+
+  expect(computed.length).toEqual(expected.length);
+
+  for (let i = 0; i < computed.length; i++) {
+    assertAlmostEqual(computed[i], expected[i], tol);
+  }
+};